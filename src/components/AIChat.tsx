@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { 
@@ -11,7 +12,29 @@ import {
   Settings, 
   AlertCircle, 
   CheckCircle,
-  Loader2
+  Loader2,
+  Square,
+  FileCode,
+  TextSelect,
+  FolderTree,
+  Paperclip,
+  Files,
+  History,
+  Plus,
+  HardDrive,
+  BarChart3,
+  BookText,
+  ScanSearch,
+  Wrench,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  RotateCcw,
+  ImagePlus,
+  X,
+  Braces,
+  FilePlus,
+  Columns3
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -29,164 +52,777 @@ import {
   SelectTrigger,
   SelectValue
 } from '@/components/ui/select';
-
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-}
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import {
+  createProvider,
+  PROVIDER_LABELS,
+  type ChatResult,
+  type ProviderChatMessage,
+  type ProviderModel
+} from '@/lib/provider';
+import type { ConnectionProfile } from '@/lib/ollama-settings';
+import {
+  buildContextWindow,
+  createFileAttachment,
+  createProjectAttachment,
+  createRetrievalAttachment,
+  createSelectionAttachment,
+  estimateTokens,
+  getPromptBudget,
+  withAttachments,
+  type ContextAttachment,
+  type ContextAttachmentKind
+} from '@/lib/chat-context';
+import type { ProjectFile } from '@/lib/files';
+import { DEFAULT_THREAD_TITLE, titleFromPrompt, type ChatMessage, type ChatThread } from '@/lib/chat-store';
+import { getActiveBranch, getLatestLeafId, getSiblings } from '@/lib/chat-branches';
+import {
+  MAX_CHAT_IMAGES,
+  imageDataUrl,
+  imageFilesFrom,
+  omitImages,
+  readImageFile,
+  type ChatImage
+} from '@/lib/chat-images';
+import { useChatThreads } from '@/hooks/use-chat-threads';
+import { ChatThreadList, type ThreadExportFormat } from '@/components/ChatThreadList';
+import { exportFileName, threadToJson, threadToMarkdown } from '@/lib/chat-export';
+import { downloadTextFile } from '@/lib/download';
+import { OllamaSettingsDialog } from '@/components/OllamaSettingsDialog';
+import { ModelManagerDialog } from '@/components/ModelManagerDialog';
+import { MetricsDashboard } from '@/components/MetricsDashboard';
+import { PromptTemplatesDialog } from '@/components/PromptTemplatesDialog';
+import { JsonSchemaDialog } from '@/components/JsonSchemaDialog';
+import { ModelCompareDialog } from '@/components/ModelCompareDialog';
+import type { CompareRun } from '@/hooks/use-model-compare';
+import {
+  buildJsonRetryPrompt,
+  checkJsonReply,
+  formatSchemaError,
+  parseJsonReply,
+  parseJsonSchema,
+  type JsonSchema
+} from '@/lib/json-schema';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { usePromptTemplates } from '@/hooks/use-prompt-templates';
+import { parseSlashCommand, renderTemplate } from '@/lib/prompt-templates';
+import { RunningModelsPopover } from '@/components/RunningModelsPopover';
+import { useRunningModels } from '@/hooks/use-running-models';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import { useProvider, useProviderCapabilities } from '@/hooks/use-provider';
+import { useRetrievalIndex } from '@/hooks/use-retrieval-index';
+import { formatChunkLocation, type RetrievalCitation } from '@/lib/retrieval';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  type GenerationSettings
+} from '@/lib/generation-settings';
+import { formatDuration, toGenerationMetrics, type GenerationMetrics } from '@/lib/metrics';
+import { extractCodeBlocks, type CodeApplyAction, type CodeBlock } from '@/lib/code-blocks';
+import { MarkdownMessage } from '@/components/MarkdownMessage';
+import { AgentToolCallCard } from '@/components/AgentToolCallCard';
+import {
+  AGENT_MAX_STEPS,
+  AGENT_SYSTEM_PROMPT,
+  AGENT_TOOLS,
+  executeAgentTool,
+  toToolHistory,
+  type AgentRunSummary,
+  type AgentToolCall,
+  type AgentWorkspace
+} from '@/lib/agent';
 
 interface AIChatProps {
-  onCodeGenerate: (code: string) => void;
+  onApplyCode: (code: string, action: CodeApplyAction, language: string) => void;
+  onProposeChangeset: (blocks: CodeBlock[]) => void;
+  activeFile?: ProjectFile;
+  selection?: string;
+  projectFiles: ProjectFile[];
+  onOpenFileRange?: (fileId: string, startLine: number, endLine: number) => void;
+  agentWorkspace?: AgentWorkspace;
+  // Added to the next prompt whenever a new one arrives, e.g. a preview screenshot
+  incomingImage?: ChatImage;
+  onCreateFile?: (name: string, content: string) => void;
 }
 
-interface OllamaModel {
-  name: string;
-  size: string;
-}
+// Messages that carry text, images or tool calls worth sending back to the model as history
+const toChatHistory = (messages: ChatMessage[]): ProviderChatMessage[] =>
+  messages
+    .filter(message => (message.content.trim() || message.images || message.toolCalls) && message.status !== 'streaming')
+    .flatMap((message): ProviderChatMessage[] =>
+      message.toolCalls
+        ? toToolHistory(message.content, message.toolCalls)
+        : [{
+          role: message.role,
+          content: withAttachments(message.content, message.attachments),
+          ...(message.images ? { images: message.images.map(image => image.data) } : {})
+        }]
+    );
 
-export function AIChat({ onCodeGenerate }: AIChatProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+const AGENT_OUTCOMES: Record<AgentRunSummary['outcome'], string> = {
+  done: 'Agent finished',
+  'step-limit': `Agent stopped at the ${AGENT_MAX_STEPS}-step limit`,
+  stopped: 'Agent stopped by user',
+  error: 'Agent stopped after an error'
+};
+
+const CONTEXT_OPTIONS: { kind: ContextAttachmentKind; label: string; icon: typeof FileCode }[] = [
+  { kind: 'file', label: 'Current file', icon: FileCode },
+  { kind: 'selection', label: 'Selection', icon: TextSelect },
+  { kind: 'project', label: 'All files', icon: FolderTree }
+];
+
+export function AIChat({
+  onApplyCode,
+  onProposeChangeset,
+  activeFile,
+  selection,
+  projectFiles,
+  onOpenFileRange,
+  agentWorkspace,
+  incomingImage,
+  onCreateFile
+}: AIChatProps) {
+  const {
+    threads,
+    activeThread,
+    isLoaded: threadsLoaded,
+    selectThread,
+    newThread,
+    importThread,
+    renameThread,
+    removeThread,
+    updateThread,
+    setThreadMessages
+  } = useChatThreads();
+  const messages = getActiveBranch(activeThread?.messages ?? [], activeThread?.activeLeafId);
+  const [showThreads, setShowThreads] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
   const [input, setInput] = useState('');
+  const [images, setImages] = useState<ChatImage[]>([]);
+  const [isDraggingImage, setIsDraggingImage] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [modelWasLoaded, setModelWasLoaded] = useState(true);
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
-  const [ollamaUrl, setOllamaUrl] = useState('http://localhost:11434');
-  const [selectedModel, setSelectedModel] = useState('');
-  const [availableModels, setAvailableModels] = useState<OllamaModel[]>([]);
+  const { activeProfile, presets, jsonOutput, updateActiveProfile } = useOllamaSettings();
+  const ollamaUrl = activeProfile.url;
+  const selectedModel = activeProfile.model;
+  const generation = activeThread?.generation ?? presets[selectedModel] ?? DEFAULT_GENERATION_SETTINGS;
+  const [availableModels, setAvailableModels] = useState<ProviderModel[]>([]);
   const [showSettings, setShowSettings] = useState(false);
+  const [showModelManager, setShowModelManager] = useState(false);
+  const [showMetrics, setShowMetrics] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [commandMenuDismissed, setCommandMenuDismissed] = useState(false);
+  const promptTemplates = usePromptTemplates();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const provider = useProvider();
+  const providerLabel = PROVIDER_LABELS[activeProfile.provider];
+  // Pulling, loaded-model status and keep_alive only exist on Ollama
+  const managesModels = provider.kind === 'ollama';
+  const { runningModels, refresh: refreshRunningModels } = useRunningModels(
+    ollamaUrl,
+    managesModels && connectionStatus === 'connected'
+  );
+  const [contextKinds, setContextKinds] = useState<Set<ContextAttachmentKind>>(new Set());
+  const retrievalIndex = useRetrievalIndex(projectFiles);
+  const [agentMode, setAgentMode] = useState(false);
+  const [jsonMode, setJsonMode] = useState(false);
+  const [showSchema, setShowSchema] = useState(false);
+  const [savingJson, setSavingJson] = useState<{ id: string; name: string } | null>(null);
+  const [pendingApproval, setPendingApproval] = useState<{ id: string; decide: (approved: boolean) => void } | null>(null);
+  const capabilities = useProviderCapabilities(selectedModel);
+  const supportsTools = capabilities?.tools ?? false;
+  const supportsVision = capabilities?.vision ?? false;
+  // A run outlives many renders; it always reaches the page's latest file tree through this
+  const workspaceRef = useRef(agentWorkspace);
+  workspaceRef.current = agentWorkspace;
   const { toast } = useToast();
 
-  // Check Ollama connection and fetch models
-  const checkConnection = async () => {
+  // Keep the profile's model valid when the installed list changes
+  const applyModels = (models: ProviderModel[]) => {
+    setAvailableModels(models);
+    updateActiveProfile(profile =>
+      models.some(model => model.name === profile.model)
+        ? {}
+        : { model: models[0]?.name ?? '' }
+    );
+  };
+
+  // Check the connection and fetch models; takes the profile so a just-edited one can be tested
+  const checkConnection = async (profile: ConnectionProfile = activeProfile) => {
     setConnectionStatus('connecting');
+    const label = PROVIDER_LABELS[profile.provider];
     try {
-      const response = await fetch(`${ollamaUrl}/api/tags`);
-      if (!response.ok) throw new Error('Failed to connect');
-      
-      const data = await response.json();
-      const models = data.models?.map((model: any) => ({
-        name: model.name,
-        size: model.size || 'Unknown'
-      })) || [];
-      
-      setAvailableModels(models);
+      const { provider: kind, url, apiKey } = profile;
+      applyModels(await createProvider({ provider: kind, url, apiKey }).listModels());
       setConnectionStatus('connected');
-      
-      if (models.length > 0 && !selectedModel) {
-        setSelectedModel(models[0].name);
-      }
-      
-      if (messages.length === 0) {
-        setMessages([{
-          id: '1',
-          role: 'assistant',
-          content: `Connected to Ollama! I'm using ${models[0]?.name || 'default model'}. What would you like to build?`,
-          timestamp: new Date()
-        }]);
-      }
-      
-      toast({ description: 'Connected to Ollama successfully!' });
+      toast({ description: `Connected to ${label} successfully!` });
     } catch (error) {
       setConnectionStatus('error');
       toast({
         variant: 'destructive',
-        description: 'Failed to connect to Ollama. Make sure it\'s running on ' + ollamaUrl
+        description: `Failed to connect to ${label}. Make sure it's running on ${profile.url}`
       });
     }
   };
 
+  // Quiet reload after the model manager pulls, copies or deletes
+  const refreshModels = async () => {
+    try {
+      applyModels(await provider.listModels());
+    } catch {
+      setConnectionStatus('error');
+    }
+  };
+
+  const addImages = async (files: File[]) => {
+    const room = MAX_CHAT_IMAGES - images.length;
+    if (files.length > room) {
+      toast({ variant: 'destructive', description: `Up to ${MAX_CHAT_IMAGES} images can be sent with a prompt` });
+    }
+    const read = await Promise.allSettled(files.slice(0, Math.max(0, room)).map(readImageFile));
+    const added = read.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const failed = read.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) toast({ variant: 'destructive', description: (failed.reason as Error).message });
+    if (added.length > 0) setImages(prev => [...prev, ...added].slice(0, MAX_CHAT_IMAGES));
+  };
+
+  useEffect(() => {
+    if (incomingImage) {
+      setImages(prev => (prev.some(image => image.id === incomingImage.id) ? prev : [...prev, incomingImage].slice(-MAX_CHAT_IMAGES)));
+    }
+  }, [incomingImage]);
+
   // Auto-connect on mount
   useEffect(() => {
     checkConnection();
   }, []);
 
-  const sendToOllama = async (prompt: string): Promise<string> => {
-    const response = await fetch(`${ollamaUrl}/api/generate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: selectedModel,
-        prompt: prompt,
-        stream: false,
-        options: {
-          temperature: 0.7,
-          top_p: 0.9,
-        }
-      }),
-    });
+  // Each thread remembers its model; follow it when threads load or are switched
+  const threadModel = activeThread?.model;
+  useEffect(() => {
+    if (threadsLoaded && threadModel) {
+      updateActiveProfile(() => ({ model: threadModel }));
+    }
+  }, [threadsLoaded, threadModel, updateActiveProfile]);
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+  const handleGenerationChange = (settings: GenerationSettings) => {
+    if (activeThread) {
+      updateThread(activeThread.id, () => ({ generation: settings }));
     }
+  };
 
-    const data = await response.json();
-    return data.response;
+  const handleModelChange = (model: string) => {
+    updateActiveProfile(() => ({ model }));
+    if (activeThread) {
+      updateThread(activeThread.id, () => ({ model }));
+    }
   };
 
-  const handleSend = async () => {
-    if (!input.trim() || connectionStatus !== 'connected' || !selectedModel) return;
+  const handleSelectThread = (id: string) => {
+    selectThread(id);
+    setShowThreads(false);
+  };
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: input.trim(),
-      timestamp: new Date()
-    };
+  const handleNewThread = () => {
+    if (activeThread && activeThread.messages.length === 0) {
+      updateThread(activeThread.id, () => ({ model: selectedModel }));
+    } else {
+      newThread(selectedModel);
+    }
+    setShowThreads(false);
+  };
 
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
-    setIsLoading(true);
+  const handleExportThread = (thread: ChatThread, format: ThreadExportFormat) => {
+    if (format === 'json') {
+      downloadTextFile(exportFileName(thread, 'json'), threadToJson(thread));
+      return;
+    }
+    const settings = thread.generation ?? presets[thread.model] ?? DEFAULT_GENERATION_SETTINGS;
+    downloadTextFile(exportFileName(thread, 'md'), threadToMarkdown(thread, settings), 'text/markdown');
+  };
 
-    try {
-      const systemPrompt = `You are a helpful coding assistant. When providing code examples, wrap them in markdown code blocks with the appropriate language specified. Be concise and practical.
+  const handleImportThread = (thread: ChatThread) => {
+    importThread(thread);
+    setShowThreads(false);
+  };
 
-User request: ${input}
+  const sendChat = async (
+    chatMessages: ProviderChatMessage[],
+    settings: GenerationSettings,
+    onToken: (token: string) => void,
+    signal: AbortSignal,
+    format?: JsonSchema
+  ): Promise<{ text: string; metrics: GenerationMetrics }> => {
+    const startedAt = performance.now();
+    let firstTokenMs: number | undefined;
+    const { text, usage } = await provider.stream({
+      model: selectedModel,
+      messages: chatMessages,
+      format,
+      keepAlive: activeProfile.keepAlive,
+      options: settings.options,
+      signal
+    }, (token) => {
+      firstTokenMs ??= performance.now() - startedAt;
+      onToken(token);
+    });
 
-Please provide a helpful response with code examples when relevant.`;
+    return { text, metrics: toGenerationMetrics(selectedModel, usage, firstTokenMs) };
+  };
 
-      const aiResponse = await sendToOllama(systemPrompt);
-      
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: new Date()
+  const getAttachment = (kind: ContextAttachmentKind): ContextAttachment | undefined => {
+    switch (kind) {
+      case 'file':
+        return activeFile ? createFileAttachment(activeFile) : undefined;
+      case 'selection':
+        return selection ? createSelectionAttachment(selection, activeFile) : undefined;
+      case 'project':
+        return projectFiles.length > 0 ? createProjectAttachment(projectFiles) : undefined;
+    }
+  };
+
+  const toggleContext = (kind: ContextAttachmentKind) => {
+    setContextKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
+  };
+
+  // "All files" already contains the current file, so don't send it twice
+  const activeAttachments = CONTEXT_OPTIONS
+    .filter(({ kind }) => contextKinds.has(kind) && !(kind === 'file' && contextKinds.has('project')))
+    .map(({ kind }) => getAttachment(kind))
+    .filter((attachment): attachment is ContextAttachment => !!attachment);
+  const promptTokens = estimateTokens(input) +
+    activeAttachments.reduce((total, attachment) => total + attachment.tokens, 0);
+  const promptBudget = getPromptBudget(generation.options.num_ctx);
+
+  const updateMessage = (threadId: string, id: string, changes: Partial<ChatMessage>) => {
+    setThreadMessages(threadId, prev => prev.map(message => message.id === id ? { ...message, ...changes } : message));
+  };
+
+  // "/command" is only being typed while there is no space after it yet
+  const commandQuery = input.match(/^\/([\w-]*)$/)?.[1].toLowerCase();
+  const commandMatches = commandQuery === undefined
+    ? []
+    : promptTemplates.templates.filter(template => template.command.startsWith(commandQuery));
+  const showCommandMenu = commandMatches.length > 0 && !commandMenuDismissed;
+
+  // Expands a slash command into its template; returns null when the template can't be filled in
+  const expandInput = (text: string): string | null => {
+    const slash = parseSlashCommand(text);
+    const template = slash && promptTemplates.templates.find(candidate => candidate.command === slash.command);
+    if (!slash || !template) return text;
+
+    const { text: expanded, missing } = renderTemplate(template.template, {
+      input: slash.rest || undefined,
+      selection: selection || undefined,
+      file: activeFile?.content,
+      filename: activeFile?.path,
+      language: activeFile?.language
+    });
+    if (missing.length > 0) {
+      toast({
+        variant: 'destructive',
+        description: `/${slash.command} needs ${missing.includes('selection') ? 'a selection in the editor' : 'an open file'}`
+      });
+      return null;
+    }
+    return expanded;
+  };
+
+  const waitForApproval = (id: string, signal: AbortSignal) =>
+    new Promise<boolean>((resolve) => {
+      const decide = (approved: boolean) => {
+        signal.removeEventListener('abort', handleAbort);
+        setPendingApproval(null);
+        resolve(approved);
       };
+      const handleAbort = () => decide(false);
+      signal.addEventListener('abort', handleAbort);
+      setPendingApproval({ id, decide });
+    });
+
+  const updateToolCall = (threadId: string, messageId: string, call: AgentToolCall) => {
+    setThreadMessages(threadId, prev => prev.map(message =>
+      message.id === messageId
+        ? { ...message, toolCalls: message.toolCalls?.map(existing => (existing.id === call.id ? call : existing)) }
+        : message
+    ));
+  };
+
+  // Agent turns use chat() rather than streaming so each reply's tool calls arrive whole
+  const runAgent = async (
+    threadId: string,
+    history: ProviderChatMessage[],
+    parentId: string,
+    signal: AbortSignal
+  ) => {
+    const changedFiles = new Set<string>();
+    const workspace: AgentWorkspace = {
+      getFiles: () => workspaceRef.current?.getFiles() ?? [],
+      resolvePath: (path) => workspaceRef.current?.resolvePath(path) ?? path,
+      writeFile: (path, content) => {
+        workspaceRef.current?.writeFile(path, content);
+        changedFiles.add(path);
+      },
+      runPreview: () => workspaceRef.current?.runPreview() ?? Promise.resolve([])
+    };
+    const systemPrompt = `${AGENT_SYSTEM_PROMPT}\n\n${generation.systemPrompt}`;
+    let lastReplyId: string | undefined;
+    let steps = 0;
 
-      setMessages(prev => [...prev, assistantMessage]);
-      
-      // Check for code blocks and offer to add to editor
-      const codeMatch = aiResponse.match(/```\w*\n([\s\S]*?)\n```/);
-      if (codeMatch) {
-        setTimeout(() => {
+    const finish = (outcome: AgentRunSummary['outcome']) => {
+      if (lastReplyId) {
+        updateMessage(threadId, lastReplyId, { agentRun: { steps, changedFiles: [...changedFiles], outcome } });
+      }
+    };
+
+    while (steps < AGENT_MAX_STEPS) {
+      steps++;
+      const replyId = `${Date.now()}-${steps}`;
+      setThreadMessages(threadId, prev => [
+        ...prev,
+        // Each step follows the previous one so the run reads as one branch
+        { id: replyId, parentId: lastReplyId ?? parentId, role: 'assistant', content: '', timestamp: new Date(), status: 'streaming' }
+      ]);
+
+      let reply: ChatResult;
+      try {
+        reply = await provider.chat({
+          model: selectedModel,
+          messages: buildContextWindow(systemPrompt, history, generation.options.num_ctx).messages,
+          tools: AGENT_TOOLS,
+          keepAlive: activeProfile.keepAlive,
+          options: generation.options,
+          signal
+        });
+      } catch (error) {
+        setThreadMessages(threadId, prev => prev.filter(message => message.id !== replyId));
+        if (!signal.aborted) {
           toast({
-            description: "Code ready to add to editor",
-            action: (
-              <Button 
-                size="sm" 
-                onClick={() => onCodeGenerate(codeMatch[1])}
-              >
-                Add to Editor
-              </Button>
-            ),
-            duration: 10000
+            variant: 'destructive',
+            description: `Agent step failed: ${error instanceof Error ? error.message : 'unknown error'}`
           });
-        }, 500);
+        }
+        finish(signal.aborted ? 'stopped' : 'error');
+        return;
+      }
+
+      const calls = (reply.toolCalls ?? []).map((call, index): AgentToolCall => ({
+        id: call.id || `${replyId}-${index}`,
+        name: call.function.name,
+        arguments: call.function.arguments ?? {},
+        status: 'pending'
+      }));
+      lastReplyId = replyId;
+      updateMessage(threadId, replyId, {
+        content: reply.text,
+        status: 'complete',
+        metrics: toGenerationMetrics(selectedModel, reply.usage),
+        toolCalls: calls.length > 0 ? calls : undefined
+      });
+      if (calls.length === 0) {
+        finish('done');
+        return;
+      }
+
+      const finished: AgentToolCall[] = [];
+      for (const call of calls) {
+        const approved = await waitForApproval(call.id, signal);
+        if (signal.aborted) break;
+
+        let result: AgentToolCall;
+        if (approved) {
+          updateToolCall(threadId, replyId, { ...call, status: 'running' });
+          try {
+            result = { ...call, status: 'done', result: await executeAgentTool(call, workspace) };
+          } catch (error) {
+            result = { ...call, status: 'error', result: `Error: ${error instanceof Error ? error.message : String(error)}` };
+          }
+        } else {
+          result = { ...call, status: 'denied' };
+        }
+        updateToolCall(threadId, replyId, result);
+        finished.push(result);
       }
+
+      if (signal.aborted) {
+        finish('stopped');
+        return;
+      }
+      history = [...history, ...toToolHistory(reply.text, finished)];
+    }
+    finish('step-limit');
+  };
+
+  // Finds project snippets for a prompt, and the citations its reply will show for them
+  const retrieveContext = async (prompt: string) => {
+    // With "All files" attached the model already sees everything retrieval could find
+    const retrieved = contextKinds.has('project') ? [] : await retrievalIndex.search(prompt);
+    if (retrieved.length === 0) return { attachment: undefined, citations: undefined };
+    return {
+      attachment: createRetrievalAttachment(retrieved),
+      citations: retrieved.map(({ fileId, path, startLine, endLine }) => ({ fileId, path, startLine, endLine }))
+    };
+  };
+
+  // The saved schema for JSON mode; null after telling the user why it can't be used
+  const readJsonSchema = (): JsonSchema | null => {
+    try {
+      return parseJsonSchema(jsonOutput.schema);
+    } catch (error) {
+      toast({ variant: 'destructive', description: (error as Error).message });
+      return null;
+    }
+  };
+
+  // Answers the last message of `branch` with a new reply beneath it, which becomes the branch shown.
+  // With a schema the reply is constrained to it and validated once it ends.
+  const respond = async (
+    threadId: string,
+    branch: ChatMessage[],
+    citations?: RetrievalCitation[],
+    schema?: JsonSchema
+  ) => {
+    const parentId = branch[branch.length - 1].id;
+    const history = supportsVision ? toChatHistory(branch) : omitImages(toChatHistory(branch));
+    setIsLoading(true);
+    updateThread(threadId, () => ({ activeLeafId: undefined }));
+    // Show "loading" rather than "thinking" when the model has to come off disk first
+    setModelWasLoaded(runningModels.some(model => model.name === selectedModel));
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Without tool support the prompt goes out as plain chat rather than failing every step
+    if (agentMode && supportsTools && !schema) {
+      try {
+        await runAgent(threadId, history, parentId, controller.signal);
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+        setIsLoading(false);
+        refreshRunningModels();
+      }
+      return;
+    }
+
+    const assistantId = `${Date.now()}-reply`;
+    setThreadMessages(threadId, prev => [
+      ...prev,
+      {
+        id: assistantId,
+        parentId,
+        role: 'assistant',
+        content: '',
+        timestamp: new Date(),
+        status: 'streaming',
+        citations,
+        jsonOutput: schema ? { schema, errors: [] } : undefined
+      }
+    ]);
+
+    let streamed = '';
+    const check = (text: string) => (schema ? { jsonOutput: checkJsonReply(text, schema) } : {});
+    try {
+      const { messages: chatMessages } = buildContextWindow(
+        generation.systemPrompt,
+        history,
+        generation.options.num_ctx
+      );
+
+      const { text: aiResponse, metrics } = await sendChat(chatMessages, generation, (token) => {
+        streamed += token;
+        updateMessage(threadId, assistantId, { content: streamed });
+      }, controller.signal, schema);
+
+      updateMessage(threadId, assistantId, { content: aiResponse, status: 'complete', metrics, ...check(aiResponse) });
     } catch (error) {
+      // A user-initiated stop keeps whatever already streamed in.
+      if (controller.signal.aborted) {
+        updateMessage(threadId, assistantId, { content: streamed, status: 'interrupted', ...check(streamed) });
+        return;
+      }
+
+      if (streamed) {
+        updateMessage(threadId, assistantId, { status: 'error', ...check(streamed) });
+      } else {
+        setThreadMessages(threadId, prev => prev.filter(message => message.id !== assistantId));
+      }
       setConnectionStatus('error');
       toast({
         variant: 'destructive',
-        description: 'Failed to get response from Ollama. Check your connection.'
+        description: `Failed to get response from ${providerLabel}. Check your connection.`
       });
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
+      refreshRunningModels();
     }
   };
 
+  // Images for the model to answer about need a vision model: others reject them or silently answer without.
+  // Images further back in the history are replaced by a note instead (see respond).
+  const refuseImages = (attached?: ChatImage[]) => {
+    if (!attached || attached.length === 0 || supportsVision) return false;
+    toast({ variant: 'destructive', description: `${selectedModel} can't read images. Remove them or pick a vision model.` });
+    return true;
+  };
+
+  const handleSend = async () => {
+    if ((!input.trim() && images.length === 0) || connectionStatus !== 'connected' || !selectedModel || !activeThread) return;
+    if (refuseImages(images)) return;
+
+    const prompt = expandInput(input.trim());
+    if (prompt === null) return;
+    const schema = jsonMode ? readJsonSchema() : undefined;
+    if (schema === null) return;
+
+    setIsLoading(true);
+    const { attachment, citations } = await retrieveContext(prompt);
+    const attachments = attachment ? [...activeAttachments, attachment] : activeAttachments;
+
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      parentId: messages[messages.length - 1]?.id ?? null,
+      role: 'user',
+      content: prompt,
+      timestamp: new Date(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+      images: images.length > 0 ? images : undefined
+    };
+
+    // Replies keep streaming into the thread they were asked in, even if another one is opened
+    const threadId = activeThread.id;
+    setThreadMessages(threadId, prev => [...prev, userMessage]);
+    if (activeThread.title === DEFAULT_THREAD_TITLE) {
+      updateThread(threadId, () => ({ title: titleFromPrompt(userMessage.content || images[0].name), model: selectedModel }));
+    }
+    setInput('');
+    setImages([]);
+    await respond(threadId, [...messages, userMessage], citations, schema);
+  };
+
+  // A new reply to the same question, as a sibling of the old one
+  const handleRegenerate = (reply: ChatMessage) => {
+    const index = messages.findIndex(message => message.id === reply.id);
+    if (isLoading || !activeThread || index <= 0 || refuseImages(messages[index - 1].images)) return;
+    respond(activeThread.id, messages.slice(0, index), reply.citations, reply.jsonOutput?.schema);
+  };
+
+  // Sends the schema errors back as a follow-up so the model can correct its JSON
+  const handleJsonRetry = (reply: ChatMessage) => {
+    const index = messages.findIndex(message => message.id === reply.id);
+    if (isLoading || !activeThread || index === -1 || !reply.jsonOutput) return;
+
+    const followUp: ChatMessage = {
+      id: Date.now().toString(),
+      parentId: reply.id,
+      role: 'user',
+      content: buildJsonRetryPrompt(reply.jsonOutput.errors),
+      timestamp: new Date()
+    };
+    setThreadMessages(activeThread.id, prev => [...prev, followUp]);
+    respond(activeThread.id, [...messages.slice(0, index + 1), followUp], undefined, reply.jsonOutput.schema);
+  };
+
+  const handleSaveJson = (reply: ChatMessage, name: string) => {
+    const fileName = /\.json$/i.test(name) ? name : `${name}.json`;
+    onCreateFile?.(fileName, `${JSON.stringify(parseJsonReply(reply.content), null, 2)}\n`);
+    setSavingJson(null);
+  };
+
+  // The edited prompt forks the conversation; the original branch stays reachable from the switcher
+  const handleEditSubmit = async (original: ChatMessage, content: string) => {
+    const index = messages.findIndex(message => message.id === original.id);
+    setEditing(null);
+    if (isLoading || !activeThread || index === -1 || !content.trim() || refuseImages(original.images)) return;
+    const schema = jsonMode ? readJsonSchema() : undefined;
+    if (schema === null) return;
+
+    setIsLoading(true);
+    const { attachment, citations } = await retrieveContext(content);
+    const attachments = [
+      ...(original.attachments ?? []).filter(existing => existing.kind !== 'retrieval'),
+      ...(attachment ? [attachment] : [])
+    ];
+    const edited: ChatMessage = {
+      id: Date.now().toString(),
+      parentId: messages[index - 1]?.id ?? null,
+      role: 'user',
+      content,
+      timestamp: new Date(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+      images: original.images
+    };
+
+    const threadId = activeThread.id;
+    setThreadMessages(threadId, prev => [...prev, edited]);
+    await respond(threadId, [...messages.slice(0, index), edited], citations, schema);
+  };
+
+  // The chosen answer joins the thread as if it had been asked there, with its model's metrics
+  const handlePromote = (prompt: string, run: CompareRun) => {
+    if (!activeThread) return;
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      parentId: messages[messages.length - 1]?.id ?? null,
+      role: 'user',
+      content: prompt,
+      timestamp: new Date()
+    };
+    const reply: ChatMessage = {
+      id: `${Date.now()}-reply`,
+      parentId: userMessage.id,
+      role: 'assistant',
+      content: run.content,
+      timestamp: new Date(),
+      status: 'complete',
+      metrics: run.metrics
+    };
+
+    setThreadMessages(activeThread.id, prev => [...prev, userMessage, reply]);
+    updateThread(activeThread.id, thread => ({
+      activeLeafId: undefined,
+      ...(thread.title === DEFAULT_THREAD_TITLE ? { title: titleFromPrompt(prompt) } : {})
+    }));
+    if (input.trim() === prompt) setInput('');
+    setShowCompare(false);
+    toast({ description: `Added ${run.model}'s answer to the chat` });
+  };
+
+  const handleSwitchBranch = (message: ChatMessage, offset: number) => {
+    if (!activeThread) return;
+    const siblings = getSiblings(activeThread.messages, message.id);
+    const target = siblings[siblings.indexOf(message) + offset];
+    if (!target) return;
+    updateThread(activeThread.id, thread => ({ activeLeafId: getLatestLeafId(thread.messages, target.id) }));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Abort any in-flight generation when the chat unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const getStatusBadge = () => {
     const statusConfig = {
       disconnected: { text: 'Disconnected', icon: AlertCircle, className: 'bg-muted' },
@@ -209,53 +845,93 @@ Please provide a helpful response with code examples when relevant.`;
   return (
     <Card className="flex flex-col h-full bg-card border-border">
       <div className="flex items-center justify-between p-3 border-b border-border">
-        <div className="flex items-center gap-2">
-          <Bot className="w-4 h-4 text-terminal-green" />
-          <span className="font-medium text-sm">Ollama AI</span>
+        <div className="flex items-center gap-2 min-w-0">
+          <Bot className="w-4 h-4 text-terminal-green flex-shrink-0" />
+          <span className="font-medium text-sm truncate" title={activeThread?.title}>
+            {activeThread && activeThread.title !== DEFAULT_THREAD_TITLE ? activeThread.title : `${providerLabel} AI`}
+          </span>
         </div>
         <div className="flex items-center gap-2">
           {getStatusBadge()}
-          <Dialog open={showSettings} onOpenChange={setShowSettings}>
-            <DialogTrigger asChild>
-              <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                <Settings className="w-3 h-3" />
+          {managesModels && connectionStatus === 'connected' && (
+            <RunningModelsPopover
+              ollamaUrl={ollamaUrl}
+              runningModels={runningModels}
+              selectedModel={selectedModel}
+              keepAlive={activeProfile.keepAlive}
+              onChanged={refreshRunningModels}
+            />
+          )}
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={handleNewThread} title="New chat">
+            <Plus className="w-3 h-3" />
+          </Button>
+          <Sheet open={showThreads} onOpenChange={setShowThreads}>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => setShowThreads(true)}
+              title="Chat history"
+            >
+              <History className="w-3 h-3" />
+            </Button>
+            <SheetContent side="right" className="flex flex-col">
+              <SheetHeader>
+                <SheetTitle>Chats</SheetTitle>
+              </SheetHeader>
+              <ChatThreadList
+                threads={threads}
+                activeThreadId={activeThread?.id}
+                onSelect={handleSelectThread}
+                onCreate={handleNewThread}
+                onRename={renameThread}
+                onDelete={removeThread}
+                onExport={handleExportThread}
+                onImport={handleImportThread}
+              />
+            </SheetContent>
+          </Sheet>
+          {managesModels && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => setShowModelManager(true)}
+                disabled={connectionStatus !== 'connected'}
+                title="Manage models"
+              >
+                <HardDrive className="w-3 h-3" />
               </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-md">
-              <DialogHeader>
-                <DialogTitle>Ollama Settings</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <label className="text-sm font-medium">Ollama URL</label>
-                  <Input
-                    value={ollamaUrl}
-                    onChange={(e) => setOllamaUrl(e.target.value)}
-                    placeholder="http://localhost:11434"
-                    className="mt-1"
-                  />
-                </div>
-                <div>
-                  <label className="text-sm font-medium">Model</label>
-                  <Select value={selectedModel} onValueChange={setSelectedModel}>
-                    <SelectTrigger className="mt-1">
-                      <SelectValue placeholder="Select a model" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {availableModels.map((model) => (
-                        <SelectItem key={model.name} value={model.name}>
-                          {model.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <Button onClick={checkConnection} className="w-full">
-                  Test Connection
-                </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+              <ModelManagerDialog
+                open={showModelManager}
+                onOpenChange={setShowModelManager}
+                ollamaUrl={ollamaUrl}
+                models={availableModels}
+                onModelsChanged={refreshModels}
+              />
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => setShowMetrics(true)}
+            title="Model performance"
+          >
+            <BarChart3 className="w-3 h-3" />
+          </Button>
+          <MetricsDashboard open={showMetrics} onOpenChange={setShowMetrics} threads={threads} />
+          <OllamaSettingsDialog
+            open={showSettings}
+            onOpenChange={setShowSettings}
+            availableModels={availableModels}
+            selectedModel={selectedModel}
+            onModelChange={handleModelChange}
+            onTestConnection={checkConnection}
+            generation={generation}
+            onGenerationChange={handleGenerationChange}
+          />
         </div>
       </div>
 
@@ -263,7 +939,7 @@ Please provide a helpful response with code examples when relevant.`;
         <Alert className="m-2 border-destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            Cannot connect to Ollama at {ollamaUrl}. Make sure Ollama is running and accessible.
+            Cannot connect to {providerLabel} at {ollamaUrl}. Make sure the server is running and accessible.
           </AlertDescription>
         </Alert>
       )}
@@ -272,72 +948,591 @@ Please provide a helpful response with code examples when relevant.`;
         <Alert className="m-2 border-yellow-500">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            No models available. Please pull a model using: ollama pull llama2
+            No models available.{' '}
+            {managesModels ? (
+              <>
+                <button className="underline" onClick={() => setShowModelManager(true)}>
+                  Pull one from the model manager
+                </button>
+                .
+              </>
+            ) : (
+              'Load a model on the server, then test the connection again.'
+            )}
           </AlertDescription>
         </Alert>
       )}
 
       <ScrollArea className="flex-1 p-3">
         <div className="space-y-3">
-          {messages.map((message) => (
-            <div key={message.id} className="flex gap-2">
+          {messages.length === 0 && connectionStatus === 'connected' && (
+            <div className="flex gap-2">
               <div className="w-6 h-6 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
-                {message.role === 'user' ? (
-                  <User className="w-3 h-3" />
-                ) : (
-                  <Bot className="w-3 h-3 text-terminal-green" />
-                )}
+                <Bot className="w-3 h-3 text-terminal-green" />
               </div>
-              <div className="flex-1">
-                <div className="text-xs text-muted-foreground mb-1">
-                  {message.role === 'user' ? 'You' : `AI (${selectedModel})`}
+              <div className="text-sm text-foreground">
+                Connected to {providerLabel}! I'm using {selectedModel || 'default model'}. What would you like to build?
+              </div>
+            </div>
+          )}
+          {messages.filter(message => message.content || message.status !== 'streaming').map((message) => {
+            const siblings = getSiblings(activeThread?.messages ?? [], message.id);
+            const siblingIndex = siblings.indexOf(message);
+            return (
+              <div key={message.id} className="group flex gap-2">
+                <div className="w-6 h-6 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+                  {message.role === 'user' ? (
+                    <User className="w-3 h-3" />
+                  ) : (
+                    <Bot className="w-3 h-3 text-terminal-green" />
+                  )}
                 </div>
-                <div className="text-sm text-foreground whitespace-pre-wrap">
-                  {message.content}
+                <div className="flex-1">
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                    <span className="truncate">
+                      {message.role === 'user' ? 'You' : `AI (${message.metrics?.model ?? selectedModel})`}
+                    </span>
+                    {siblings.length > 1 && (
+                      <span className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-4 w-4 p-0"
+                          onClick={() => handleSwitchBranch(message, -1)}
+                          disabled={isLoading || siblingIndex === 0}
+                          title="Previous branch"
+                        >
+                          <ChevronLeft className="w-3 h-3" />
+                        </Button>
+                        <span className="font-mono text-[10px]">{siblingIndex + 1}/{siblings.length}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-4 w-4 p-0"
+                          onClick={() => handleSwitchBranch(message, 1)}
+                          disabled={isLoading || siblingIndex === siblings.length - 1}
+                          title="Next branch"
+                        >
+                          <ChevronRight className="w-3 h-3" />
+                        </Button>
+                      </span>
+                    )}
+                    {/* An agent step depends on the tool results before it, so it can't be regenerated alone */}
+                    {!isLoading && message.status !== 'streaming' && editing?.id !== message.id
+                      && !message.toolCalls && !message.agentRun && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-4 w-4 p-0 ml-auto opacity-0 group-hover:opacity-100"
+                        onClick={() => message.role === 'user'
+                          ? setEditing({ id: message.id, content: message.content })
+                          : handleRegenerate(message)}
+                        disabled={connectionStatus !== 'connected' || !selectedModel}
+                        title={message.role === 'user' ? 'Edit and resend' : 'Regenerate'}
+                      >
+                        {message.role === 'user' ? <Pencil className="w-3 h-3" /> : <RotateCcw className="w-3 h-3" />}
+                      </Button>
+                    )}
+                  </div>
+                  {message.attachments && (
+                    <div className="flex flex-wrap gap-1 mb-1">
+                      {message.attachments.map((attachment) => (
+                        <Badge key={attachment.kind} variant="outline" className="text-[10px] font-normal">
+                          <Paperclip className="w-2.5 h-2.5 mr-1" />
+                          {attachment.label} · ~{attachment.tokens} tok
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {message.images && (
+                    <div className="flex flex-wrap gap-1 mb-1">
+                      {message.images.map((image) => (
+                        <img
+                          key={image.id}
+                          src={imageDataUrl(image)}
+                          alt={image.name}
+                          title={`${image.name} · ${image.width}×${image.height}`}
+                          className="h-20 max-w-[10rem] rounded-md border border-border object-cover"
+                        />
+                      ))}
+                    </div>
+                  )}
+                  {message.role === 'assistant' ? (
+                    <MarkdownMessage
+                      content={message.jsonOutput && !message.content.trimStart().startsWith('```')
+                        ? `\`\`\`json\n${message.content}\n\`\`\``
+                        : message.content}
+                      onApplyCode={onApplyCode}
+                      hasSelection={!!selection}
+                      streaming={message.status === 'streaming'}
+                    />
+                  ) : editing?.id === message.id ? (
+                    <div className="space-y-1">
+                      <Textarea
+                        value={editing.content}
+                        onChange={(e) => setEditing({ id: message.id, content: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleEditSubmit(message, editing.content.trim());
+                          } else if (e.key === 'Escape') {
+                            setEditing(null);
+                          }
+                        }}
+                        className="min-h-16 text-sm"
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setEditing(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => handleEditSubmit(message, editing.content.trim())}
+                          disabled={!editing.content.trim()}
+                        >
+                          Send
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-foreground whitespace-pre-wrap">{message.content}</div>
+                  )}
+                  {message.status === 'streaming' && message.content && (
+                    <span className="inline-block w-1.5 h-3.5 align-middle bg-terminal-green animate-pulse" />
+                  )}
+                  {message.jsonOutput && message.status !== 'streaming' && (
+                    message.jsonOutput.errors.length === 0 ? (
+                      <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                        <span className="flex items-center text-terminal-green">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Matches the schema
+                        </span>
+                        {onCreateFile && (savingJson?.id === message.id ? (
+                          <span className="flex items-center gap-1">
+                            <Input
+                              value={savingJson.name}
+                              onChange={(e) => setSavingJson({ id: message.id, name: e.target.value })}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter' && savingJson.name.trim()) handleSaveJson(message, savingJson.name.trim());
+                                else if (e.key === 'Escape') setSavingJson(null);
+                              }}
+                              className="h-6 w-40 text-xs font-mono"
+                              autoFocus
+                            />
+                            <Button
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => handleSaveJson(message, savingJson.name.trim())}
+                              disabled={!savingJson.name.trim()}
+                            >
+                              Add
+                            </Button>
+                          </span>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setSavingJson({ id: message.id, name: 'data.json' })}
+                          >
+                            <FilePlus className="w-3 h-3 mr-1" />
+                            Add as .json file
+                          </Button>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="mt-1 rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs">
+                        <div className="flex items-center justify-between gap-2 text-destructive">
+                          <span className="flex items-center font-medium">
+                            <AlertCircle className="w-3 h-3 mr-1" />
+                            {message.jsonOutput.errors.length} schema error{message.jsonOutput.errors.length === 1 ? '' : 's'}
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-5 px-2 text-[10px]"
+                            onClick={() => handleJsonRetry(message)}
+                            disabled={isLoading || connectionStatus !== 'connected' || !selectedModel}
+                          >
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            Retry with errors
+                          </Button>
+                        </div>
+                        <ul className="mt-1 space-y-0.5 font-mono text-destructive">
+                          {message.jsonOutput.errors.map((error, index) => (
+                            <li key={index}>{formatSchemaError(error)}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )
+                  )}
+                  {message.toolCalls && (
+                    <div className="space-y-1 mt-1">
+                      {message.toolCalls.map((call) => (
+                        <AgentToolCallCard
+                          key={call.id}
+                          call={call}
+                          onDecision={pendingApproval?.id === call.id ? pendingApproval.decide : undefined}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  {message.agentRun && (
+                    <div className="mt-1 rounded-md border border-border p-2 text-xs">
+                      <div className={message.agentRun.outcome === 'done' ? 'text-terminal-green' : 'text-muted-foreground'}>
+                        {AGENT_OUTCOMES[message.agentRun.outcome]} after {message.agentRun.steps} step{message.agentRun.steps === 1 ? '' : 's'}
+                      </div>
+                      {message.agentRun.changedFiles.length > 0 ? (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {message.agentRun.changedFiles.map((path) => (
+                            <Badge key={path} variant="outline" className="text-[10px] font-mono font-normal">
+                              <FileCode className="w-2.5 h-2.5 mr-1" />
+                              {path}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="text-muted-foreground mt-1">No files changed</div>
+                      )}
+                    </div>
+                  )}
+                  {message.role === 'assistant' && message.status !== 'streaming' && (() => {
+                    const fileBlocks = extractCodeBlocks(message.content).filter(block => block.path && block.closed);
+                    return fileBlocks.length > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 mt-1 text-xs"
+                        onClick={() => onProposeChangeset(fileBlocks)}
+                      >
+                        <Files className="w-3 h-3 mr-1" />
+                        Review changes to {new Set(fileBlocks.map(block => block.path)).size} file(s)
+                      </Button>
+                    );
+                  })()}
+                  {message.citations && message.status !== 'streaming' && (
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      <span className="text-[10px] text-muted-foreground">Sources:</span>
+                      {message.citations.map((citation, index) => (
+                        <button
+                          key={`${citation.fileId}:${citation.startLine}`}
+                          className="text-[10px] font-mono text-terminal-green hover:underline"
+                          onClick={() => onOpenFileRange?.(citation.fileId, citation.startLine, citation.endLine)}
+                          title="Open in editor"
+                        >
+                          [{index + 1}] {formatChunkLocation(citation)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {message.metrics && (
+                    <div
+                      className="text-[10px] text-muted-foreground mt-1 font-mono"
+                      title={`Load ${formatDuration(message.metrics.loadMs)} · total ${formatDuration(message.metrics.totalMs)}`}
+                    >
+                      {message.metrics.tokensPerSecond.toFixed(1)} tok/s · {message.metrics.promptTokens} prompt · {message.metrics.outputTokens} output
+                      {message.metrics.firstTokenMs !== undefined && ` · first token ${formatDuration(message.metrics.firstTokenMs)}`}
+                      {` · ${formatDuration(message.metrics.totalMs)}`}
+                    </div>
+                  )}
+                  {message.status === 'error' && (
+                    <div className="text-xs text-destructive mt-1">Response incomplete</div>
+                  )}
+                  {message.status === 'interrupted' && (
+                    <div className="text-xs text-muted-foreground mt-1">Stopped by user</div>
+                  )}
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
           
-          {isLoading && (
+          {isLoading && messages[messages.length - 1]?.status === 'streaming' && messages[messages.length - 1]?.content === '' && (
             <div className="flex gap-2">
               <div className="w-6 h-6 rounded-full bg-muted flex items-center justify-center">
                 <Bot className="w-3 h-3 text-terminal-green animate-pulse" />
               </div>
-              <div className="text-sm text-muted-foreground">AI is thinking...</div>
+              <div className="text-sm text-muted-foreground">
+                {modelWasLoaded ? 'AI is thinking...' : `Loading ${selectedModel} into memory...`}
+              </div>
             </div>
           )}
         </div>
       </ScrollArea>
 
-      <div className="p-3 border-t border-border">
-        <div className="flex gap-2">
+      <div
+        className={`p-3 border-t border-border ${isDraggingImage ? 'bg-muted ring-2 ring-inset ring-terminal-green' : ''}`}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDraggingImage(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingImage(false);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDraggingImage(false);
+          addImages(imageFilesFrom(e.dataTransfer));
+        }}
+      >
+        <div className="flex flex-wrap items-center gap-1 mb-2">
+          {CONTEXT_OPTIONS.map(({ kind, label, icon: Icon }) => {
+            const attachment = getAttachment(kind);
+            const active = contextKinds.has(kind) && !!attachment;
+            return (
+              <Button
+                key={kind}
+                variant={active ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => toggleContext(kind)}
+                disabled={!attachment}
+                className={`h-6 px-2 text-xs ${active ? 'border border-terminal-green' : ''}`}
+                title={attachment ? attachment.label : `No ${label.toLowerCase()} available`}
+              >
+                <Icon className="w-3 h-3 mr-1" />
+                {label}
+                {attachment && <span className="ml-1 text-muted-foreground">~{attachment.tokens}</span>}
+              </Button>
+            );
+          })}
+          <Button
+            variant={agentMode ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => {
+              setAgentMode(prev => !prev);
+              setJsonMode(false);
+            }}
+            disabled={isLoading || !agentWorkspace || (!agentMode && !supportsTools)}
+            className={`h-6 px-2 text-xs ${agentMode ? 'border border-terminal-green' : ''}`}
+            title={supportsTools
+              ? 'Let the model read, write and test project files, approving each step'
+              : `${selectedModel} doesn't support tool calling`}
+          >
+            <Wrench className="w-3 h-3 mr-1" />
+            Agent
+          </Button>
+          <Button
+            variant={jsonMode ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => {
+              setJsonMode(prev => !prev);
+              setAgentMode(false);
+            }}
+            disabled={isLoading}
+            className={`h-6 px-2 text-xs ${jsonMode ? 'border border-terminal-green' : ''}`}
+            title="Constrain replies to a JSON schema and validate them"
+          >
+            <Braces className="w-3 h-3 mr-1" />
+            JSON
+          </Button>
+          {jsonMode && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSchema(true)}
+              className="h-6 px-2 text-xs"
+              title="Edit the JSON schema"
+            >
+              Schema
+            </Button>
+          )}
+          <JsonSchemaDialog open={showSchema} onOpenChange={setShowSchema} />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => imageInputRef.current?.click()}
+            disabled={isLoading || images.length >= MAX_CHAT_IMAGES}
+            className="h-6 px-2 text-xs"
+            title="Attach images; you can also paste or drop them here"
+          >
+            <ImagePlus className="w-3 h-3 mr-1" />
+            Image
+          </Button>
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addImages(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+          {retrievalIndex.status.state !== 'off' && (
+            <span
+              className={`flex items-center text-xs ${retrievalIndex.status.state === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}
+              title="Relevant snippets from the project are added to each question"
+            >
+              {retrievalIndex.status.state === 'indexing'
+                ? <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                : <ScanSearch className="w-3 h-3 mr-1" />}
+              {retrievalIndex.status.state === 'error'
+                ? 'Indexing failed'
+                : `${retrievalIndex.status.chunks} chunks`}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowCompare(true)}
+            disabled={isLoading || connectionStatus !== 'connected' || availableModels.length < 2 || !activeThread}
+            className="h-6 px-2 text-xs ml-auto"
+            title="Send one prompt to several models and compare the answers"
+          >
+            <Columns3 className="w-3 h-3 mr-1" />
+            Compare
+          </Button>
+          {showCompare && (
+            <ModelCompareDialog
+              onClose={() => setShowCompare(false)}
+              models={availableModels.map(model => model.name)}
+              selectedModel={selectedModel}
+              initialPrompt={input}
+              history={toChatHistory(messages)}
+              onPromote={handlePromote}
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowTemplates(true)}
+            className="h-6 px-2 text-xs"
+            title="Prompt templates"
+          >
+            <BookText className="w-3 h-3 mr-1" />
+            Templates
+          </Button>
+          <PromptTemplatesDialog
+            open={showTemplates}
+            onOpenChange={setShowTemplates}
+            templates={promptTemplates.templates}
+            customTemplates={promptTemplates.customTemplates}
+            onSave={promptTemplates.saveTemplate}
+            onDelete={promptTemplates.deleteTemplate}
+            onImport={promptTemplates.importTemplates}
+          />
+        </div>
+        {images.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {images.map((image) => (
+              <div key={image.id} className="relative">
+                <img
+                  src={imageDataUrl(image)}
+                  alt={image.name}
+                  title={`${image.name} · ${image.width}×${image.height}`}
+                  className="h-14 w-14 rounded-md border border-border object-cover"
+                />
+                <button
+                  className="absolute -top-1.5 -right-1.5 rounded-full bg-background border border-border p-0.5 hover:text-destructive"
+                  onClick={() => setImages(prev => prev.filter(existing => existing.id !== image.id))}
+                  title="Remove image"
+                >
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {/* cmdk handles arrow keys and Enter for the suggestions while the menu is open */}
+        <Command shouldFilter={false} className="relative flex-row gap-2 h-auto overflow-visible bg-transparent">
+          {showCommandMenu && (
+            <CommandList className="absolute bottom-full left-0 right-0 mb-1 rounded-md border border-border bg-popover shadow-md">
+              <CommandGroup heading="Commands">
+                {commandMatches.map((template) => (
+                  <CommandItem
+                    key={template.command}
+                    value={template.command}
+                    onSelect={() => setInput(`/${template.command} `)}
+                  >
+                    <span className="font-mono text-xs">/{template.command}</span>
+                    <span className="ml-2 text-xs text-muted-foreground truncate">{template.description}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          )}
           <Input
             value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyPress={(e) => e.key === 'Enter' && handleSend()}
-            placeholder={connectionStatus === 'connected' ? "Ask Ollama..." : "Connect to Ollama first"}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setCommandMenuDismissed(false);
+            }}
+            onPaste={(e) => {
+              const pasted = imageFilesFrom(e.clipboardData);
+              if (pasted.length === 0) return;
+              e.preventDefault();
+              addImages(pasted);
+            }}
+            onKeyDown={(e) => {
+              if (showCommandMenu) {
+                if (e.key === 'Escape') {
+                  e.preventDefault();
+                  setCommandMenuDismissed(true);
+                }
+                return;
+              }
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder={connectionStatus !== 'connected'
+              ? `Connect to ${providerLabel} first`
+              : agentMode && supportsTools
+                ? 'Describe a task for the agent...'
+                : jsonMode
+                  ? 'Describe the JSON to generate...'
+                : `Ask ${selectedModel || providerLabel}... (/ for commands)`}
             disabled={isLoading || connectionStatus !== 'connected' || !selectedModel}
             className="flex-1 h-8 text-sm"
           />
-          <Button 
-            onClick={handleSend} 
-            disabled={!input.trim() || isLoading || connectionStatus !== 'connected' || !selectedModel}
-            size="sm"
-            className="h-8"
-          >
-            {isLoading ? (
-              <Loader2 className="w-3 h-3 animate-spin" />
-            ) : (
+          {isLoading ? (
+            <Button
+              onClick={handleStop}
+              variant="destructive"
+              size="sm"
+              className="h-8"
+              title="Stop generating"
+            >
+              <Square className="w-3 h-3" />
+            </Button>
+          ) : (
+            <Button 
+              onClick={handleSend} 
+              disabled={(!input.trim() && images.length === 0) || (images.length > 0 && !supportsVision)
+                || connectionStatus !== 'connected' || !selectedModel}
+              size="sm"
+              className="h-8"
+            >
               <Send className="w-3 h-3" />
-            )}
-          </Button>
-        </div>
+            </Button>
+          )}
+        </Command>
         {connectionStatus === 'connected' && selectedModel && (
           <div className="text-xs text-muted-foreground mt-1">
             Using {selectedModel} • {availableModels.length} models available
           </div>
         )}
+        {agentMode && !supportsTools && (
+          <div className="text-xs text-destructive mt-1">
+            {selectedModel} doesn't support tool calling, so messages go out as plain chat. Pick a model such as
+            qwen2.5-coder or llama3.1 for agent mode.
+          </div>
+        )}
+        {images.length > 0 && !supportsVision && (
+          <div className="text-xs text-destructive mt-1">
+            {selectedModel} can't read images. Pick a vision model such as llava or llama3.2-vision.
+          </div>
+        )}
+        {activeAttachments.length > 0 && (
+          <div className={`text-xs mt-1 ${promptTokens > promptBudget ? 'text-destructive' : 'text-muted-foreground'}`}>
+            ~{promptTokens} / {promptBudget} prompt tokens
+            {promptTokens > promptBudget && ' • context too large, older turns and some code may be cut off'}
+          </div>
+        )}
       </div>
     </Card>
   );
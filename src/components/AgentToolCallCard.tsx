@@ -0,0 +1,68 @@
+import { Check, ChevronRight, Loader2, Wrench, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { describeToolCall, type AgentToolCall } from '@/lib/agent';
+
+interface AgentToolCallCardProps {
+  call: AgentToolCall;
+  // Present only while the agent is waiting on this call
+  onDecision?: (approved: boolean) => void;
+}
+
+const STATUS_LABELS: Record<AgentToolCall['status'], string> = {
+  pending: 'Not run',
+  running: 'Running',
+  done: 'Done',
+  denied: 'Denied',
+  error: 'Failed'
+};
+
+export function AgentToolCallCard({ call, onDecision }: AgentToolCallCardProps) {
+  const content = typeof call.arguments.content === 'string' ? call.arguments.content : undefined;
+  const hasDetails = !!content || !!call.result;
+
+  return (
+    <Collapsible className="rounded-md border border-border bg-muted/30 text-xs">
+      <div className="flex items-center gap-2 px-2 py-1">
+        <Wrench className="w-3 h-3 text-terminal-green flex-shrink-0" />
+        <span className="font-mono truncate flex-1" title={describeToolCall(call)}>{describeToolCall(call)}</span>
+        {onDecision ? (
+          <>
+            <Button size="sm" className="h-5 px-2 text-[10px]" onClick={() => onDecision(true)}>
+              <Check className="w-3 h-3 mr-1" />
+              Approve
+            </Button>
+            <Button size="sm" variant="outline" className="h-5 px-2 text-[10px]" onClick={() => onDecision(false)}>
+              <X className="w-3 h-3 mr-1" />
+              Deny
+            </Button>
+          </>
+        ) : (
+          <Badge
+            variant="outline"
+            className={`text-[10px] font-normal ${call.status === 'error' || call.status === 'denied' ? 'text-destructive' : ''}`}
+          >
+            {call.status === 'running' && <Loader2 className="w-2.5 h-2.5 mr-1 animate-spin" />}
+            {STATUS_LABELS[call.status]}
+          </Badge>
+        )}
+        {hasDetails && (
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-5 w-5 p-0 [&[data-state=open]>svg]:rotate-90" title="Details">
+              <ChevronRight className="w-3 h-3 transition-transform" />
+            </Button>
+          </CollapsibleTrigger>
+        )}
+      </div>
+      <CollapsibleContent className="border-t border-border px-2 py-1 space-y-1">
+        {content && (
+          <pre className="max-h-40 overflow-auto whitespace-pre-wrap font-mono text-[10px]">{content}</pre>
+        )}
+        {call.result && (
+          <pre className="max-h-40 overflow-auto whitespace-pre-wrap font-mono text-[10px] text-muted-foreground">{call.result}</pre>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
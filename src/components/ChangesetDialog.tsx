@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FileText } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { DiffView } from '@/components/DiffView';
+import { applyHunks, diffLines, getHunks } from '@/lib/diff';
+import type { FileChange } from '@/lib/changeset';
+
+export interface AppliedChange {
+  change: FileChange;
+  content: string;
+}
+
+interface ChangesetDialogProps {
+  changes: FileChange[] | null;
+  onApply: (applied: AppliedChange[]) => void;
+  onCancel: () => void;
+}
+
+export function ChangesetDialog({ changes, onApply, onCancel }: ChangesetDialogProps) {
+  const diffs = useMemo(
+    () => (changes || []).map(change => ({ change, segments: diffLines(change.original, change.proposed) })),
+    [changes]
+  );
+  const [activePath, setActivePath] = useState('');
+  const [accepted, setAccepted] = useState<Map<string, Set<number>>>(new Map());
+
+  useEffect(() => {
+    setActivePath(diffs[0]?.change.path ?? '');
+    setAccepted(new Map(diffs.map(({ change, segments }) => [
+      change.path,
+      new Set(getHunks(segments).map(hunk => hunk.id))
+    ])));
+  }, [diffs]);
+
+  const setFileAccepted = (path: string, hunkIds: number[]) => {
+    setAccepted(prev => new Map(prev).set(path, new Set(hunkIds)));
+  };
+
+  const setHunk = (path: string, hunkId: number, accept: boolean) => {
+    const next = new Set(accepted.get(path));
+    if (accept) {
+      next.add(hunkId);
+    } else {
+      next.delete(hunkId);
+    }
+    setFileAccepted(path, [...next]);
+  };
+
+  const active = diffs.find(({ change }) => change.path === activePath);
+  const included = diffs.filter(({ change }) => (accepted.get(change.path)?.size ?? 0) > 0);
+
+  const handleApply = () => {
+    onApply(included.map(({ change, segments }) => ({
+      change,
+      content: applyHunks(segments, accepted.get(change.path) ?? new Set())
+    })));
+  };
+
+  return (
+    <Dialog open={!!changes} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Review changes to {diffs.length} file{diffs.length === 1 ? '' : 's'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex gap-3 h-[60vh]">
+          <div className="w-56 flex-shrink-0 space-y-1 overflow-auto">
+            {diffs.map(({ change, segments }) => {
+              const hunkIds = getHunks(segments).map(hunk => hunk.id);
+              const acceptedCount = accepted.get(change.path)?.size ?? 0;
+              return (
+                <div
+                  key={change.path}
+                  className={`flex items-center gap-2 px-2 py-1 rounded cursor-pointer hover:bg-secondary ${
+                    change.path === activePath ? 'bg-primary/20 text-primary' : ''
+                  }`}
+                  onClick={() => setActivePath(change.path)}
+                >
+                  <Checkbox
+                    checked={acceptedCount === hunkIds.length ? true : acceptedCount > 0 ? 'indeterminate' : false}
+                    onCheckedChange={(checked) => setFileAccepted(change.path, checked === true ? hunkIds : [])}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                  <FileText className="w-3 h-3 flex-shrink-0" />
+                  <span className="text-sm truncate flex-1" title={change.path}>{change.path}</span>
+                  <Badge variant="outline" className="text-[10px] px-1">
+                    {change.fileId ? 'M' : 'A'}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex-1 min-w-0">
+            {active && (
+              <DiffView
+                segments={active.segments}
+                accepted={accepted.get(active.change.path) ?? new Set()}
+                onHunkChange={(hunkId, accept) => setHunk(active.change.path, hunkId, accept)}
+                className="h-full"
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Discard
+          </Button>
+          <Button size="sm" disabled={included.length === 0} onClick={handleApply}>
+            Apply {included.length} file{included.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
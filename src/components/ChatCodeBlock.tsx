@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Highlight, themes } from 'prism-react-renderer';
+import { Button } from '@/components/ui/button';
+import { Check, Copy, FilePlus, FileInput, Replace, TextCursorInput } from 'lucide-react';
+import type { CodeApplyAction, CodeBlock } from '@/lib/code-blocks';
+
+interface ChatCodeBlockProps {
+  block: CodeBlock;
+  onApply?: (code: string, action: CodeApplyAction, language: string) => void;
+  hasSelection?: boolean;
+}
+
+const APPLY_ACTIONS: { action: CodeApplyAction; label: string; icon: typeof Replace }[] = [
+  { action: 'replace-file', label: 'Replace file', icon: FileInput },
+  { action: 'insert-at-cursor', label: 'Insert', icon: TextCursorInput },
+  { action: 'replace-selection', label: 'Replace selection', icon: Replace },
+  { action: 'create-file', label: 'New file', icon: FilePlus }
+];
+
+// Fence names models use that Prism knows under another id
+const PRISM_LANGUAGES: Record<string, string> = {
+  htm: 'markup',
+  html: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  sh: 'plain',
+  bash: 'plain',
+  shell: 'plain'
+};
+
+export function ChatCodeBlock({ block, onApply, hasSelection }: ChatCodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(block.code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="my-2 rounded border border-border bg-editor-bg">
+      <div className="flex items-center justify-between px-2 py-1 border-b border-border">
+        <span className="text-[10px] uppercase text-muted-foreground truncate">
+          {block.path ? `${block.language} · ${block.path}` : block.language || 'code'}
+        </span>
+        <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={handleCopy} title="Copy code">
+          {copied ? <Check className="w-3 h-3 text-terminal-green" /> : <Copy className="w-3 h-3" />}
+        </Button>
+      </div>
+      <Highlight
+        theme={themes.vsDark}
+        code={block.code}
+        language={PRISM_LANGUAGES[block.language] ?? (block.language || 'plain')}
+      >
+        {({ tokens, getLineProps, getTokenProps }) => (
+          <pre className="p-2 overflow-x-auto text-xs font-mono whitespace-pre">
+            {tokens.map((line, lineIndex) => (
+              <div key={lineIndex} {...getLineProps({ line })}>
+                {line.map((token, tokenIndex) => (
+                  <span key={tokenIndex} {...getTokenProps({ token })} />
+                ))}
+              </div>
+            ))}
+          </pre>
+        )}
+      </Highlight>
+      {onApply && block.closed && (
+        <div className="flex flex-wrap gap-1 px-2 py-1 border-t border-border">
+          {APPLY_ACTIONS.map(({ action, label, icon: Icon }) => (
+            <Button
+              key={action}
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              disabled={action === 'replace-selection' && !hasSelection}
+              onClick={() => onApply(block.code, action, block.language)}
+            >
+              <Icon className="w-3 h-3 mr-1" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
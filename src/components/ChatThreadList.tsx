@@ -0,0 +1,216 @@
+import { useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Check, Download, MessageSquare, Pencil, Plus, Search, Trash2, Upload, X } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { parseThreadJson } from '@/lib/chat-export';
+import type { ChatThread } from '@/lib/chat-store';
+
+export type ThreadExportFormat = 'markdown' | 'json';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeThreadId?: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (thread: ChatThread, format: ThreadExportFormat) => void;
+  onImport: (thread: ChatThread) => void;
+}
+
+const matchesQuery = (thread: ChatThread, query: string) => {
+  const needle = query.toLowerCase();
+  return thread.title.toLowerCase().includes(needle) ||
+    thread.messages.some(message => message.content.toLowerCase().includes(needle));
+};
+
+export function ChatThreadList({
+  threads,
+  activeThreadId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onExport,
+  onImport
+}: ChatThreadListProps) {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const visibleThreads = query.trim() ? threads.filter(thread => matchesQuery(thread, query.trim())) : threads;
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setDraftTitle(thread.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const thread = parseThreadJson(await file.text());
+      onImport(thread);
+      toast({ description: `Imported "${thread.title}"` });
+    } catch (error) {
+      toast({ variant: 'destructive', description: (error as Error).message });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chats"
+            className="pl-8 h-8 text-sm"
+          />
+        </div>
+        <Button size="sm" className="h-8" onClick={onCreate}>
+          <Plus className="w-3 h-3 mr-1" />
+          New
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 w-8 p-0"
+          title="Import chat from JSON"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="w-3 h-3" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-1">
+          {visibleThreads.map((thread) => (
+            <div
+              key={thread.id}
+              className={`group flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer hover:bg-secondary ${
+                thread.id === activeThreadId ? 'bg-primary/20 text-primary' : 'text-foreground'
+              }`}
+              onClick={() => editingId !== thread.id && onSelect(thread.id)}
+            >
+              <MessageSquare className="w-4 h-4 flex-shrink-0" />
+              {editingId === thread.id ? (
+                <Input
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  onBlur={commitRename}
+                  className="h-6 text-xs"
+                  autoFocus
+                />
+              ) : (
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm truncate">{thread.title}</div>
+                  <div className="text-[10px] text-muted-foreground truncate">
+                    {thread.model || 'No model'} • {thread.messages.length} messages •{' '}
+                    {formatDistanceToNow(thread.updatedAt, { addSuffix: true })}
+                  </div>
+                </div>
+              )}
+              {editingId !== thread.id && (
+                <div className="flex gap-0.5 opacity-0 group-hover:opacity-100" onClick={(e) => e.stopPropagation()}>
+                  {confirmDeleteId === thread.id ? (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 text-destructive"
+                        title="Confirm delete"
+                        onClick={() => {
+                          onDelete(thread.id);
+                          setConfirmDeleteId(null);
+                        }}
+                      >
+                        <Check className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Cancel"
+                        onClick={() => setConfirmDeleteId(null)}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Export">
+                            <Download className="w-3 h-3" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onSelect={() => onExport(thread, 'markdown')}>Markdown (.md)</DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => onExport(thread, 'json')}>JSON, for re-import</DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Rename"
+                        onClick={() => startRename(thread)}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Delete"
+                        onClick={() => setConfirmDeleteId(thread.id)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          {visibleThreads.length === 0 && (
+            <div className="text-sm text-muted-foreground text-center py-6">No chats match "{query}"</div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,19 +1,129 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, type ChangeEvent, type KeyboardEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Copy, Scissors, FileText } from 'lucide-react';
+import {
+  Copy,
+  Scissors,
+  FileText,
+  Sparkles,
+  Loader2,
+  Bot,
+  HelpCircle,
+  Wand2,
+  MessageSquare,
+  Bug,
+  Zap,
+  FileCode,
+  type LucideIcon
+} from 'lucide-react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger
+} from '@/components/ui/context-menu';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
+import { useInlineCompletion } from '@/hooks/use-inline-completion';
+import { getSelectionActions, type SelectionActionId } from '@/lib/selection-actions';
+
+export interface EditorSelection {
+  start: number;
+  end: number;
+  text: string;
+}
 
 interface CodeEditorProps {
   value: string;
   onChange: (value: string) => void;
+  onSelectionChange?: (selection: EditorSelection) => void;
+  onSelectionAction?: (action: SelectionActionId) => void;
+  // Selects and scrolls to this range whenever a new object is passed, e.g. from a chat citation
+  revealRange?: { start: number; end: number };
   language?: string;
+  // Decides which AI actions apply, e.g. "Convert to TypeScript" only in .ts files
+  fileName?: string;
 }
 
-export function CodeEditor({ value, onChange, language = 'javascript' }: CodeEditorProps) {
+const ACTION_ICONS: Record<SelectionActionId, LucideIcon> = {
+  explain: HelpCircle,
+  refactor: Wand2,
+  comment: MessageSquare,
+  'find-bugs': Bug,
+  optimize: Zap,
+  'convert-ts': FileCode
+};
+
+export function CodeEditor({
+  value,
+  onChange,
+  onSelectionChange,
+  onSelectionAction,
+  revealRange,
+  language = 'javascript',
+  fileName = ''
+}: CodeEditorProps) {
+  const selectionActions = getSelectionActions(fileName);
   const [selectedText, setSelectedText] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const ghostRef = useRef<HTMLDivElement>(null);
+  const pendingCursorRef = useRef<number | null>(null);
   const { toast } = useToast();
+  const completion = useInlineCompletion();
+  const ghost = completion.suggestion?.source === value ? completion.suggestion : null;
+
+  // Move the caret past accepted ghost text once the new value has rendered
+  useEffect(() => {
+    if (pendingCursorRef.current !== null && textareaRef.current) {
+      textareaRef.current.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current);
+      pendingCursorRef.current = null;
+    }
+  }, [value]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!revealRange || !textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(revealRange.start, revealRange.end);
+    // Put the first line a few rows below the top edge; rows are 20px (leading-5)
+    const line = textarea.value.slice(0, revealRange.start).split('\n').length;
+    textarea.scrollTop = Math.max(0, (line - 3) * 20);
+  }, [revealRange]);
+
+  useEffect(() => {
+    if (ghost && ghostRef.current && textareaRef.current) {
+      ghostRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  }, [ghost]);
+
+  const handleChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    const { selectionStart, selectionEnd } = e.target;
+    if (selectionStart === selectionEnd) {
+      completion.request(e.target.value, selectionStart);
+    } else {
+      completion.dismiss();
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!ghost) return;
+    if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      pendingCursorRef.current = ghost.position + ghost.text.length;
+      onChange(value.slice(0, ghost.position) + ghost.text + value.slice(ghost.position));
+      completion.dismiss();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      completion.dismiss();
+    }
+  };
 
   const handleTextSelect = () => {
     if (textareaRef.current) {
@@ -21,6 +131,8 @@ export function CodeEditor({ value, onChange, language = 'javascript' }: CodeEdi
       const end = textareaRef.current.selectionEnd;
       const selected = value.substring(start, end);
       setSelectedText(selected);
+      onSelectionChange?.({ start, end, text: selected });
+      if (ghost && (start !== end || start !== ghost.position)) completion.dismiss();
     }
   };
 
@@ -42,6 +154,7 @@ export function CodeEditor({ value, onChange, language = 'javascript' }: CodeEdi
       const newValue = value.substring(0, start) + value.substring(end);
       onChange(newValue);
       setSelectedText('');
+      onSelectionChange?.({ start, end: start, text: '' });
       toast({ description: 'Cut to clipboard' });
     }
   };
@@ -56,6 +169,43 @@ export function CodeEditor({ value, onChange, language = 'javascript' }: CodeEdi
           <span className="text-sm text-foreground">main.{language}</span>
         </div>
         <div className="flex items-center gap-2">
+          {completion.enabled && (
+            <span
+              className="flex items-center text-xs text-muted-foreground"
+              title={ghost ? 'Tab to accept, Esc to dismiss' : 'Inline completion is on'}
+            >
+              {completion.isFetching
+                ? <Loader2 className="w-3 h-3 animate-spin" />
+                : <Sparkles className={`w-3 h-3 ${ghost ? 'text-terminal-green' : ''}`} />}
+            </span>
+          )}
+          {onSelectionAction && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!selectedText}
+                  className="h-7 px-2 text-xs"
+                  title={selectedText ? 'AI actions for the selection' : 'Select code to use AI actions'}
+                >
+                  <Bot className="w-3 h-3 mr-1" />
+                  AI
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {selectionActions.map(({ id, label }) => {
+                  const Icon = ACTION_ICONS[id];
+                  return (
+                    <DropdownMenuItem key={id} onSelect={() => onSelectionAction(id)}>
+                      <Icon className="w-3 h-3 mr-2" />
+                      {label}
+                    </DropdownMenuItem>
+                  );
+                })}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
           <Button 
             variant="ghost" 
             size="sm" 
@@ -90,15 +240,57 @@ export function CodeEditor({ value, onChange, language = 'javascript' }: CodeEdi
           ))}
         </div>
         
-        <textarea
-          ref={textareaRef}
-          value={value}
-          onChange={(e) => onChange(e.target.value)}
-          onSelect={handleTextSelect}
-          className="flex-1 bg-transparent text-foreground font-mono text-sm leading-5 p-3 resize-none outline-none selection:bg-editor-selection"
-          placeholder="// Start coding here..."
-          spellCheck={false}
-        />
+        <ContextMenu>
+          <ContextMenuTrigger asChild disabled={!onSelectionAction || !selectedText}>
+            <div className="relative flex-1">
+              {/* Mirrors the textarea's layout so the suggestion lands right after the caret */}
+              {ghost && (
+                <div
+                  ref={ghostRef}
+                  aria-hidden
+                  className="absolute inset-0 overflow-y-scroll [scrollbar-gutter:stable] p-3 font-mono text-sm leading-5 whitespace-pre-wrap break-words pointer-events-none"
+                >
+                  <span className="invisible">{value.slice(0, ghost.position)}</span>
+                  <span className="text-muted-foreground/60">{ghost.text}</span>
+                </div>
+              )}
+              <textarea
+                ref={textareaRef}
+                value={value}
+                onChange={handleChange}
+                onSelect={handleTextSelect}
+                onKeyDown={handleKeyDown}
+                onBlur={completion.dismiss}
+                onScroll={(e) => {
+                  if (ghostRef.current) ghostRef.current.scrollTop = e.currentTarget.scrollTop;
+                }}
+                className="relative w-full h-full [scrollbar-gutter:stable] bg-transparent text-foreground font-mono text-sm leading-5 p-3 resize-none outline-none selection:bg-editor-selection"
+                placeholder="// Start coding here..."
+                spellCheck={false}
+              />
+            </div>
+          </ContextMenuTrigger>
+          <ContextMenuContent>
+            {selectionActions.map(({ id, label }) => {
+              const Icon = ACTION_ICONS[id];
+              return (
+                <ContextMenuItem key={id} onSelect={() => onSelectionAction?.(id)}>
+                  <Icon className="w-3 h-3 mr-2" />
+                  {label}
+                </ContextMenuItem>
+              );
+            })}
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={handleCopy}>
+              <Copy className="w-3 h-3 mr-2" />
+              Copy
+            </ContextMenuItem>
+            <ContextMenuItem onSelect={handleCut}>
+              <Scissors className="w-3 h-3 mr-2" />
+              Cut
+            </ContextMenuItem>
+          </ContextMenuContent>
+        </ContextMenu>
       </div>
     </Card>
   );
@@ -0,0 +1,112 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { DiffView } from '@/components/DiffView';
+import { applyHunks, diffLines, getHunks } from '@/lib/diff';
+
+export interface PendingEdit {
+  title: string;
+  // Undefined when the edit creates a new file
+  fileId?: string;
+  fileName: string;
+  original: string;
+  proposed: string;
+}
+
+interface DiffPreviewDialogProps {
+  edit: PendingEdit | null;
+  onAccept: (content: string, fileName: string) => void;
+  onReject: () => void;
+}
+
+export function DiffPreviewDialog({ edit, onAccept, onReject }: DiffPreviewDialogProps) {
+  const segments = useMemo(() => (edit ? diffLines(edit.original, edit.proposed) : []), [edit]);
+  const hunks = useMemo(() => getHunks(segments), [segments]);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+  const [fileName, setFileName] = useState('');
+
+  useEffect(() => {
+    setAccepted(new Set(hunks.map(hunk => hunk.id)));
+    setFileName(edit?.fileName ?? '');
+  }, [edit, hunks]);
+
+  const setHunk = (hunkId: number, accept: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (accept) {
+        next.add(hunkId);
+      } else {
+        next.delete(hunkId);
+      }
+      return next;
+    });
+  };
+
+  const isNewFile = !edit?.fileId;
+  const canApply = accepted.size > 0 && (!isNewFile || fileName.trim() !== '');
+
+  return (
+    <Dialog open={!!edit} onOpenChange={(open) => !open && onReject()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>
+            {edit?.title}: {isNewFile ? 'new file' : edit?.fileName}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isNewFile && (
+          <div>
+            <label className="text-sm font-medium">File name</label>
+            <Input
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+              placeholder="untitled.js"
+              className="mt-1"
+            />
+          </div>
+        )}
+
+        {hunks.length === 0 ? (
+          <div className="text-sm text-muted-foreground">The suggested code is identical to the current file.</div>
+        ) : (
+          <DiffView
+            segments={segments}
+            accepted={accepted}
+            onHunkChange={setHunk}
+            className="h-[60vh]"
+          />
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAccepted(new Set(hunks.map(hunk => hunk.id)))}>
+              Accept all
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAccepted(new Set())}>
+              Reject all
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={onReject}>
+              Discard
+            </Button>
+            <Button
+              size="sm"
+              disabled={!canApply}
+              onClick={() => onAccept(applyHunks(segments, accepted), fileName.trim())}
+            >
+              Apply {accepted.size} of {hunks.length}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
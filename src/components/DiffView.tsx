@@ -0,0 +1,169 @@
+import { Fragment, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Check, X } from 'lucide-react';
+import { getHunks, type DiffSegment } from '@/lib/diff';
+
+interface DiffViewProps {
+  segments: DiffSegment[];
+  accepted: Set<number>;
+  onHunkChange: (hunkId: number, accept: boolean) => void;
+  className?: string;
+}
+
+interface DiffCell {
+  number: number;
+  text: string;
+}
+
+type DiffRow =
+  | { type: 'context'; left: DiffCell; right: DiffCell }
+  | { type: 'collapsed'; count: number }
+  | { type: 'hunk-header'; hunkId: number; index: number }
+  | { type: 'change'; hunkId: number; left?: DiffCell; right?: DiffCell };
+
+const CONTEXT_LINES = 3;
+
+const buildDiffRows = (segments: DiffSegment[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  let hunkIndex = 0;
+
+  segments.forEach((segment, segmentIndex) => {
+    if (segment.type === 'equal') {
+      const isFirst = segmentIndex === 0;
+      const isLast = segmentIndex === segments.length - 1;
+      const keepHead = isFirst ? 0 : CONTEXT_LINES;
+      const keepTail = isLast ? 0 : CONTEXT_LINES;
+
+      segment.lines.forEach((text, lineIndex) => {
+        const hidden = lineIndex >= keepHead && lineIndex < segment.lines.length - keepTail;
+        if (hidden) {
+          const previous = rows[rows.length - 1];
+          if (previous?.type === 'collapsed') {
+            previous.count++;
+          } else {
+            rows.push({ type: 'collapsed', count: 1 });
+          }
+        } else {
+          rows.push({
+            type: 'context',
+            left: { number: oldNumber, text },
+            right: { number: newNumber, text }
+          });
+        }
+        oldNumber++;
+        newNumber++;
+      });
+      return;
+    }
+
+    rows.push({ type: 'hunk-header', hunkId: segment.id, index: hunkIndex++ });
+    const height = Math.max(segment.oldLines.length, segment.newLines.length);
+    for (let i = 0; i < height; i++) {
+      rows.push({
+        type: 'change',
+        hunkId: segment.id,
+        left: i < segment.oldLines.length ? { number: oldNumber + i, text: segment.oldLines[i] } : undefined,
+        right: i < segment.newLines.length ? { number: newNumber + i, text: segment.newLines[i] } : undefined
+      });
+    }
+    oldNumber += segment.oldLines.length;
+    newNumber += segment.newLines.length;
+  });
+
+  return rows;
+};
+
+function DiffCellView({ cell, tone }: { cell?: DiffCell; tone: 'plain' | 'removed' | 'added' | 'muted' }) {
+  const toneClass = {
+    plain: '',
+    removed: 'bg-destructive/20',
+    added: 'bg-terminal-green/20',
+    muted: 'opacity-40'
+  }[tone];
+
+  return (
+    <div className={`flex min-w-0 ${cell ? toneClass : 'bg-muted/30'}`}>
+      <span className="w-10 flex-shrink-0 pr-2 text-right text-editor-lineNumber select-none">
+        {cell?.number ?? ''}
+      </span>
+      <span className="whitespace-pre-wrap break-all">{cell?.text ?? ''}</span>
+    </div>
+  );
+}
+
+export function DiffView({ segments, accepted, onHunkChange, className = '' }: DiffViewProps) {
+  const rows = useMemo(() => buildDiffRows(segments), [segments]);
+  const hunkCount = getHunks(segments).length;
+
+  return (
+    <ScrollArea className={`rounded border border-border ${className}`}>
+      <div className="grid grid-cols-2 font-mono text-xs leading-5">
+        <div className="px-2 py-1 border-b border-border text-muted-foreground">Current</div>
+        <div className="px-2 py-1 border-b border-l border-border text-muted-foreground">Proposed</div>
+        {rows.map((row, index) => {
+          switch (row.type) {
+            case 'collapsed':
+              return (
+                <div key={index} className="col-span-2 px-2 text-center text-muted-foreground bg-muted/30">
+                  ⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}
+                </div>
+              );
+            case 'hunk-header': {
+              const isAccepted = accepted.has(row.hunkId);
+              return (
+                <div key={index} className="col-span-2 flex items-center justify-between px-2 py-1 bg-secondary border-y border-border">
+                  <span className="text-muted-foreground">
+                    Change {row.index + 1} of {hunkCount}
+                  </span>
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant={isAccepted ? 'default' : 'ghost'}
+                      className="h-5 px-2 text-xs"
+                      onClick={() => onHunkChange(row.hunkId, true)}
+                    >
+                      <Check className="w-3 h-3 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={isAccepted ? 'ghost' : 'destructive'}
+                      className="h-5 px-2 text-xs"
+                      onClick={() => onHunkChange(row.hunkId, false)}
+                    >
+                      <X className="w-3 h-3 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              );
+            }
+            case 'change': {
+              const isAccepted = accepted.has(row.hunkId);
+              return (
+                <Fragment key={index}>
+                  <DiffCellView cell={row.left} tone={isAccepted ? 'removed' : 'plain'} />
+                  <div className="border-l border-border">
+                    <DiffCellView cell={row.right} tone={isAccepted ? 'added' : 'muted'} />
+                  </div>
+                </Fragment>
+              );
+            }
+            default:
+              return (
+                <Fragment key={index}>
+                  <DiffCellView cell={row.left} tone="plain" />
+                  <div className="border-l border-border">
+                    <DiffCellView cell={row.right} tone="plain" />
+                  </div>
+                </Fragment>
+              );
+          }
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
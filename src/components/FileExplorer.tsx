@@ -2,50 +2,27 @@ import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Folder, File, Plus, FolderOpen, FileText, Settings } from 'lucide-react';
-
-interface FileNode {
-  id: string;
-  name: string;
-  type: 'file' | 'folder';
-  children?: FileNode[];
-  content?: string;
-}
+import { Folder, File, Plus, FolderOpen, FileText, Settings, Undo2 } from 'lucide-react';
+import type { FileNode } from '@/lib/files';
 
 interface FileExplorerProps {
+  files: FileNode[];
   onFileSelect: (file: FileNode) => void;
+  onFileCreate: (name: string) => void;
   selectedFile?: FileNode;
+  // Files touched by a changeset that is being reviewed
+  changedFileIds?: Set<string>;
+  onUndo?: () => void;
 }
 
-export function FileExplorer({ onFileSelect, selectedFile }: FileExplorerProps) {
-  const [files, setFiles] = useState<FileNode[]>([
-    {
-      id: '1',
-      name: 'src',
-      type: 'folder',
-      children: [
-        {
-          id: '2',
-          name: 'index.html',
-          type: 'file',
-          content: '<!DOCTYPE html>\n<html>\n<head>\n  <title>My App</title>\n</head>\n<body>\n  <h1>Hello World</h1>\n</body>\n</html>'
-        },
-        {
-          id: '3',
-          name: 'style.css',
-          type: 'file',
-          content: 'body {\n  font-family: Arial, sans-serif;\n  margin: 0;\n  padding: 20px;\n}'
-        },
-        {
-          id: '4',
-          name: 'script.js',
-          type: 'file',
-          content: 'console.log("Hello from JavaScript!");\n\n// Your code here'
-        }
-      ]
-    }
-  ]);
-  
+export function FileExplorer({
+  files,
+  onFileSelect,
+  onFileCreate,
+  selectedFile,
+  changedFileIds,
+  onUndo
+}: FileExplorerProps) {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['1']));
   const [newFileName, setNewFileName] = useState('');
   const [showNewFile, setShowNewFile] = useState(false);
@@ -79,24 +56,10 @@ export function FileExplorer({ onFileSelect, selectedFile }: FileExplorerProps)
   const createNewFile = () => {
     if (!newFileName.trim()) return;
     
-    const newFile: FileNode = {
-      id: Date.now().toString(),
-      name: newFileName,
-      type: 'file',
-      content: '// New file\n'
-    };
-
-    setFiles(prev => {
-      const updated = [...prev];
-      if (updated[0] && updated[0].children) {
-        updated[0].children.push(newFile);
-      }
-      return updated;
-    });
+    onFileCreate(newFileName.trim());
 
     setNewFileName('');
     setShowNewFile(false);
-    onFileSelect(newFile);
   };
 
   const renderFileTree = (nodes: FileNode[], depth = 0) => {
@@ -120,6 +83,9 @@ export function FileExplorer({ onFileSelect, selectedFile }: FileExplorerProps)
             return <Icon className="w-4 h-4 flex-shrink-0" />;
           })()}
           <span className="text-sm truncate">{node.name}</span>
+          {changedFileIds?.has(node.id) && (
+            <span className="ml-auto w-2 h-2 rounded-full bg-yellow-500 flex-shrink-0" title="Pending AI change" />
+          )}
         </div>
         {node.type === 'folder' && expandedFolders.has(node.id) && node.children && (
           <div>
@@ -134,14 +100,27 @@ export function FileExplorer({ onFileSelect, selectedFile }: FileExplorerProps)
     <Card className="flex flex-col h-full bg-card border-border">
       <div className="flex items-center justify-between p-3 border-b border-border">
         <span className="font-medium text-sm">Files</span>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => setShowNewFile(true)}
-          className="h-6 w-6 p-0"
-        >
-          <Plus className="w-3 h-3" />
-        </Button>
+        <div className="flex items-center gap-1">
+          {onUndo && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onUndo}
+              className="h-6 w-6 p-0"
+              title="Undo last AI change"
+            >
+              <Undo2 className="w-3 h-3" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowNewFile(true)}
+            className="h-6 w-6 p-0"
+          >
+            <Plus className="w-3 h-3" />
+          </Button>
+        </div>
       </div>
 
       <div className="flex-1 overflow-auto">
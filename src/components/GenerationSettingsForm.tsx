@@ -0,0 +1,136 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { RotateCcw, Save, Trash2 } from 'lucide-react';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  type GenerationOptions,
+  type GenerationSettings
+} from '@/lib/generation-settings';
+
+interface GenerationSettingsFormProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  model: string;
+  hasPreset: boolean;
+  onSavePreset: () => void;
+  onDeletePreset: () => void;
+}
+
+const SLIDERS: { key: 'temperature' | 'top_p' | 'repeat_penalty'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.05 },
+  { key: 'top_p', label: 'Top P', min: 0, max: 1, step: 0.05 },
+  { key: 'repeat_penalty', label: 'Repeat penalty', min: 0.5, max: 2, step: 0.05 }
+];
+
+const INTEGER_FIELDS: { key: 'top_k' | 'num_ctx' | 'num_predict'; label: string; hint: string; min: number }[] = [
+  { key: 'top_k', label: 'Top K', hint: '0 disables', min: 0 },
+  { key: 'num_ctx', label: 'Context (num_ctx)', hint: 'tokens', min: 256 },
+  { key: 'num_predict', label: 'Max tokens', hint: '-1 = no limit', min: -2 }
+];
+
+export function GenerationSettingsForm({
+  settings,
+  onChange,
+  model,
+  hasPreset,
+  onSavePreset,
+  onDeletePreset
+}: GenerationSettingsFormProps) {
+  const setOption = <K extends keyof GenerationOptions>(key: K, value: GenerationOptions[K]) => {
+    onChange({ ...settings, options: { ...settings.options, [key]: value } });
+  };
+
+  const setInteger = (key: 'top_k' | 'num_ctx' | 'num_predict', raw: string, min: number) => {
+    const value = parseInt(raw, 10);
+    if (!Number.isNaN(value)) setOption(key, Math.max(min, value));
+  };
+
+  return (
+    <div className="space-y-4">
+      {SLIDERS.map(({ key, label, min, max, step }) => (
+        <div key={key}>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">{label}</label>
+            <span className="text-xs text-muted-foreground font-mono">{settings.options[key].toFixed(2)}</span>
+          </div>
+          <Slider
+            value={[settings.options[key]]}
+            onValueChange={([value]) => setOption(key, value)}
+            min={min}
+            max={max}
+            step={step}
+            className="mt-2"
+          />
+        </div>
+      ))}
+
+      <div className="grid grid-cols-2 gap-3">
+        {INTEGER_FIELDS.map(({ key, label, hint, min }) => (
+          <div key={key}>
+            <label className="text-sm font-medium">{label}</label>
+            <Input
+              type="number"
+              value={settings.options[key]}
+              min={min}
+              onChange={(e) => setInteger(key, e.target.value, min)}
+              className="mt-1 h-8"
+            />
+            <p className="text-[10px] text-muted-foreground mt-0.5">{hint}</p>
+          </div>
+        ))}
+        <div>
+          <label className="text-sm font-medium">Seed</label>
+          <Input
+            type="number"
+            value={settings.options.seed ?? ''}
+            placeholder="Random"
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              setOption('seed', Number.isNaN(value) ? undefined : value);
+            }}
+            className="mt-1 h-8"
+          />
+          <p className="text-[10px] text-muted-foreground mt-0.5">Fixed seed for repeatable output</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">Stop sequences</label>
+        <Textarea
+          value={settings.options.stop.join('\n')}
+          onChange={(e) => setOption('stop', e.target.value.split('\n').filter(line => line !== ''))}
+          placeholder="One per line"
+          className="mt-1 min-h-[60px] font-mono text-xs"
+        />
+      </div>
+
+      <div>
+        <label className="text-sm font-medium">System prompt</label>
+        <Textarea
+          value={settings.systemPrompt}
+          onChange={(e) => onChange({ ...settings, systemPrompt: e.target.value })}
+          className="mt-1 min-h-[120px] text-xs"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={onSavePreset} disabled={!model}>
+          <Save className="w-3 h-3 mr-1" />
+          {hasPreset ? 'Update' : 'Save as'} preset for {model || 'model'}
+        </Button>
+        {hasPreset && (
+          <Button variant="outline" size="sm" onClick={onDeletePreset}>
+            <Trash2 className="w-3 h-3 mr-1" />
+            Delete preset
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)}>
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import { DEFAULT_JSON_SCHEMA, parseJsonSchema } from '@/lib/json-schema';
+
+interface JsonSchemaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function JsonSchemaDialog({ open, onOpenChange }: JsonSchemaDialogProps) {
+  const { jsonOutput, updateJsonOutput } = useOllamaSettings();
+  const [draft, setDraft] = useState(jsonOutput.schema);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved schema each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(jsonOutput.schema);
+      setError(null);
+    }
+  }, [open, jsonOutput.schema]);
+
+  const handleSave = () => {
+    try {
+      parseJsonSchema(draft);
+    } catch (parseError) {
+      setError((parseError as Error).message);
+      return;
+    }
+    updateJsonOutput({ schema: draft });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>JSON output schema</DialogTitle>
+          <DialogDescription>
+            Replies in JSON mode are constrained to this schema and checked against it when they finish.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setError(null);
+          }}
+          className="min-h-80 font-mono text-xs"
+          spellCheck={false}
+        />
+        {error && <div className="text-xs text-destructive">{error}</div>}
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" size="sm" onClick={() => setDraft(DEFAULT_JSON_SCHEMA)}>
+            Reset to example
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave}>
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
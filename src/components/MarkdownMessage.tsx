@@ -0,0 +1,101 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import type { Element, Root, RootContent } from 'hast';
+import { ChatCodeBlock } from '@/components/ChatCodeBlock';
+import { createCodeBlock, type CodeApplyAction } from '@/lib/code-blocks';
+
+interface MarkdownMessageProps {
+  content: string;
+  onApplyCode?: (code: string, action: CodeApplyAction, language: string) => void;
+  hasSelection?: boolean;
+  // While streaming, the last fence may still be open
+  streaming?: boolean;
+}
+
+// rehype-sanitize rebuilds nodes without their `data`, so the fence meta
+// ("path=src/app.js") is copied onto an attribute the schema lets through.
+const rehypeFenceMeta = () => (tree: Root) => {
+  const walk = (nodes: RootContent[]) => nodes.forEach(node => {
+    if (node.type !== 'element') return;
+    const meta = (node.data as { meta?: string } | undefined)?.meta;
+    if (node.tagName === 'code' && meta) node.properties.dataMeta = meta;
+    walk(node.children);
+  });
+  walk(tree.children);
+};
+
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [...(defaultSchema.attributes?.code || []), 'dataMeta']
+  }
+};
+
+const baseComponents: Components = {
+  h1: ({ children }) => <h1 className="text-base font-semibold mt-3 mb-1">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-sm font-semibold mt-3 mb-1">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-sm font-medium mt-2 mb-1">{children}</h3>,
+  p: ({ children }) => <p className="my-1 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="my-1 ml-4 list-disc space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="my-1 ml-4 list-decimal space-y-0.5">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-1 border-l-2 border-border pl-2 text-muted-foreground">{children}</blockquote>
+  ),
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-border px-2 py-1 text-left font-medium">{children}</th>,
+  td: ({ children }) => <td className="border border-border px-2 py-1">{children}</td>,
+  code: ({ children }) => (
+    <code className="rounded bg-muted px-1 py-0.5 font-mono text-xs">{children}</code>
+  )
+};
+
+/**
+ * Renders assistant replies as GitHub-flavoured markdown. Raw HTML from the
+ * model is never interpreted, and the tree is sanitized before rendering.
+ */
+export function MarkdownMessage({ content, onApplyCode, hasSelection, streaming }: MarkdownMessageProps) {
+  const components: Components = {
+    ...baseComponents,
+    // Fenced blocks arrive as <pre><code class="language-x">; inline code stays in `code` above
+    pre: ({ node }) => {
+      const codeNode = node?.children[0] as Element | undefined;
+      if (!codeNode || codeNode.type !== 'element' || codeNode.tagName !== 'code') return null;
+
+      const className = String((codeNode.properties.className as string[] | undefined)?.[0] ?? '');
+      const language = className.replace(/^language-/, '');
+      const meta = String(codeNode.properties.dataMeta ?? '');
+      const text = codeNode.children.map(child => (child.type === 'text' ? child.value : '')).join('');
+
+      return (
+        <ChatCodeBlock
+          block={createCodeBlock(`${language} ${meta}`, text.replace(/\n$/, ''), !streaming)}
+          onApply={onApplyCode}
+          hasSelection={hasSelection}
+        />
+      );
+    }
+  };
+
+  return (
+    <div className="text-sm text-foreground break-words">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeFenceMeta, [rehypeSanitize, sanitizeSchema]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
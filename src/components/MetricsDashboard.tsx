@@ -0,0 +1,102 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import type { ChatThread } from '@/lib/chat-store';
+import { formatDuration, summarizeByModel } from '@/lib/metrics';
+
+interface MetricsDashboardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  threads: ChatThread[];
+}
+
+// Replies from earlier visits stay in the thread but aren't part of this comparison
+const SESSION_START = new Date();
+
+const chartConfig = {
+  avgTokensPerSecond: { label: 'Tokens/sec', color: 'hsl(var(--terminal-green))' },
+  avgFirstTokenMs: { label: 'First token (ms)', color: 'hsl(var(--code-blue))' }
+} satisfies ChartConfig;
+
+export function MetricsDashboard({ open, onOpenChange, threads }: MetricsDashboardProps) {
+  const metrics = threads.flatMap(thread =>
+    thread.messages.flatMap(message =>
+      message.metrics && message.timestamp >= SESSION_START ? [message.metrics] : []
+    )
+  );
+  const summaries = summarizeByModel(metrics).map(summary => ({
+    ...summary,
+    avgTokensPerSecond: Number(summary.avgTokensPerSecond.toFixed(1)),
+    avgFirstTokenMs: Math.round(summary.avgFirstTokenMs)
+  }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Model performance this session</DialogTitle>
+        </DialogHeader>
+
+        {summaries.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center py-8">
+            No completed replies yet. Metrics appear here as models answer.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {(['avgTokensPerSecond', 'avgFirstTokenMs'] as const).map((key) => (
+                <div key={key}>
+                  <div className="text-xs font-medium mb-1">{chartConfig[key].label}</div>
+                  <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+                    <BarChart data={summaries}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="model" tickLine={false} axisLine={false} tickFormatter={(model: string) => model.split(':')[0]} />
+                      <YAxis tickLine={false} axisLine={false} width={36} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey={key} fill={`var(--color-${key})`} radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+              ))}
+            </div>
+
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground">
+                <tr className="border-b border-border">
+                  <th className="text-left font-medium py-1">Model</th>
+                  <th className="text-right font-medium">Replies</th>
+                  <th className="text-right font-medium">Tok/s</th>
+                  <th className="text-right font-medium">First token</th>
+                  <th className="text-right font-medium">Avg total</th>
+                  <th className="text-right font-medium">Output tok</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {summaries.map((summary) => (
+                  <tr key={summary.model} className="border-b border-border last:border-0">
+                    <td className="py-1 font-sans">{summary.model}</td>
+                    <td className="text-right">{summary.replies}</td>
+                    <td className="text-right">{summary.avgTokensPerSecond}</td>
+                    <td className="text-right">{formatDuration(summary.avgFirstTokenMs)}</td>
+                    <td className="text-right">{formatDuration(summary.avgTotalMs)}</td>
+                    <td className="text-right">{summary.outputTokens}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowUpToLine, Columns3, Loader2, Square } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { MarkdownMessage } from '@/components/MarkdownMessage';
+import {
+  COMPARE_MAX_MODELS,
+  COMPARE_MIN_MODELS,
+  useModelCompare,
+  type CompareRun
+} from '@/hooks/use-model-compare';
+import { formatDuration } from '@/lib/metrics';
+import type { ProviderChatMessage } from '@/lib/provider';
+
+// Mounted only while open, so every comparison starts from the chat's current input and model
+interface ModelCompareDialogProps {
+  onClose: () => void;
+  models: string[];
+  selectedModel: string;
+  initialPrompt: string;
+  // The conversation so far, sent ahead of the prompt to every model
+  history: ProviderChatMessage[];
+  onPromote: (prompt: string, run: CompareRun) => void;
+}
+
+const STATUS_LABELS: Record<CompareRun['status'], string> = {
+  queued: 'Queued',
+  streaming: 'Generating',
+  complete: 'Done',
+  stopped: 'Stopped',
+  error: 'Failed'
+};
+
+export function ModelCompareDialog({
+  onClose,
+  models,
+  selectedModel,
+  initialPrompt,
+  history,
+  onPromote
+}: ModelCompareDialogProps) {
+  const compare = useModelCompare();
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const [picked, setPicked] = useState<string[]>(selectedModel ? [selectedModel] : []);
+  const [parallel, setParallel] = useState(false);
+  const [ranPrompt, setRanPrompt] = useState('');
+
+  const togglePicked = (model: string, checked: boolean) => {
+    setPicked(prev => (checked ? [...prev, model] : prev.filter(existing => existing !== model)));
+  };
+
+  const handleRun = () => {
+    const text = prompt.trim();
+    if (!text || picked.length < COMPARE_MIN_MODELS) return;
+    setRanPrompt(text);
+    compare.start([...history, { role: 'user', content: text }], picked, parallel);
+  };
+
+  const finished = compare.runs.filter(run => run.metrics);
+  const fastest = finished.length > 1
+    ? finished.reduce((best, run) => (run.metrics!.totalMs < best.metrics!.totalMs ? run : best)).model
+    : undefined;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="w-4 h-4" />
+            Compare models
+          </DialogTitle>
+          <DialogDescription>
+            Send one prompt to {COMPARE_MIN_MODELS}–{COMPARE_MAX_MODELS} models, each with its saved settings and this
+            chat's history. The answer you pick is added to the chat.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="Prompt to compare..."
+          className="min-h-16 text-sm"
+          disabled={compare.isRunning}
+        />
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          {models.map((model) => {
+            const checked = picked.includes(model);
+            return (
+              <Label key={model} className="flex items-center gap-1.5 text-xs font-normal">
+                <Checkbox
+                  checked={checked}
+                  onCheckedChange={(value) => togglePicked(model, value === true)}
+                  disabled={compare.isRunning || (!checked && picked.length >= COMPARE_MAX_MODELS)}
+                />
+                <span className="font-mono">{model}</span>
+              </Label>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Label className="flex items-center gap-2 text-xs font-normal text-muted-foreground">
+            <Switch checked={parallel} onCheckedChange={setParallel} disabled={compare.isRunning} />
+            Run in parallel (faster overall, but models share memory and skew each other's timings)
+          </Label>
+          {compare.isRunning ? (
+            <Button variant="destructive" size="sm" onClick={compare.stop}>
+              <Square className="w-3 h-3 mr-1" />
+              Stop
+            </Button>
+          ) : (
+            <Button size="sm" onClick={handleRun} disabled={!prompt.trim() || picked.length < COMPARE_MIN_MODELS}>
+              Compare {picked.length} model{picked.length === 1 ? '' : 's'}
+            </Button>
+          )}
+        </div>
+
+        {compare.runs.length > 0 && (
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${compare.runs.length}, minmax(0, 1fr))` }}>
+            {compare.runs.map((run) => (
+              <div key={run.model} className="flex flex-col min-w-0 rounded-md border border-border">
+                <div className="flex items-center gap-1 px-2 py-1 border-b border-border text-xs">
+                  <span className="font-mono truncate" title={run.model}>{run.model}</span>
+                  {run.status === 'streaming' && <Loader2 className="w-3 h-3 animate-spin flex-shrink-0" />}
+                  {run.model === fastest && (
+                    <Badge variant="outline" className="text-[10px] font-normal text-terminal-green">fastest</Badge>
+                  )}
+                  <span className={`ml-auto ${run.status === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {STATUS_LABELS[run.status]}
+                  </span>
+                </div>
+                <ScrollArea className="h-[45vh] p-2">
+                  {run.content ? (
+                    <MarkdownMessage content={run.content} streaming={run.status === 'streaming'} />
+                  ) : run.error ? (
+                    <div className="text-xs text-destructive">{run.error}</div>
+                  ) : (
+                    <div className="text-xs text-muted-foreground">
+                      {run.status === 'queued' ? 'Waiting for the models before it...' : 'Waiting for the model...'}
+                    </div>
+                  )}
+                </ScrollArea>
+                <div className="flex items-center gap-2 px-2 py-1 border-t border-border">
+                  <div className="flex-1 text-[10px] text-muted-foreground font-mono">
+                    {run.metrics ? (
+                      <>
+                        {run.metrics.firstTokenMs !== undefined && `first token ${formatDuration(run.metrics.firstTokenMs)} · `}
+                        total {formatDuration(run.metrics.totalMs)}
+                        <br />
+                        {run.metrics.tokensPerSecond.toFixed(1)} tok/s · {run.metrics.promptTokens} prompt · {run.metrics.outputTokens} output
+                      </>
+                    ) : (
+                      '—'
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onPromote(ranPrompt, run)}
+                    disabled={run.status !== 'complete' || compare.isRunning}
+                    title="Add this prompt and answer to the chat"
+                  >
+                    <ArrowUpToLine className="w-3 h-3 mr-1" />
+                    Use this answer
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Check, Copy, Download, Info, Loader2, Trash2, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  copyModel,
+  deleteModel,
+  formatBytes,
+  getContextLength,
+  pullModel,
+  showModel,
+  type OllamaModel,
+  type OllamaModelInfo,
+  type OllamaPullProgress
+} from '@/lib/ollama';
+
+interface ModelManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ollamaUrl: string;
+  models: OllamaModel[];
+  onModelsChanged: () => void;
+}
+
+type RowMode = { name: string; kind: 'copy' | 'delete' } | null;
+
+function ModelDetails({ info }: { info: OllamaModelInfo }) {
+  const contextLength = getContextLength(info);
+  const facts = [
+    ['Family', info.details?.family],
+    ['Parameters', info.details?.parameter_size],
+    ['Quantization', info.details?.quantization_level],
+    ['Format', info.details?.format],
+    ['Context length', contextLength?.toLocaleString()]
+  ].filter(([, value]) => value);
+
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {facts.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2">
+            <span className="text-muted-foreground">{label}</span>
+            <span className="font-mono">{value}</span>
+          </div>
+        ))}
+      </div>
+      {[
+        ['Parameters', info.parameters],
+        ['Template', info.template],
+        ['License', info.license]
+      ].map(([label, value]) => value && (
+        <details key={label}>
+          <summary className="cursor-pointer text-muted-foreground">{label}</summary>
+          <pre className="mt-1 max-h-40 overflow-auto rounded bg-editor-bg p-2 font-mono whitespace-pre-wrap">{value}</pre>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+export function ModelManagerDialog({ open, onOpenChange, ollamaUrl, models, onModelsChanged }: ModelManagerDialogProps) {
+  const [pullName, setPullName] = useState('');
+  const [pullProgress, setPullProgress] = useState<OllamaPullProgress | null>(null);
+  const pullAbortRef = useRef<AbortController | null>(null);
+  const [rowMode, setRowMode] = useState<RowMode>(null);
+  const [copyName, setCopyName] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, OllamaModelInfo>>({});
+  const [busyModel, setBusyModel] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Details belong to one server; drop them when the profile changes
+  useEffect(() => {
+    setDetails({});
+    setExpanded(null);
+  }, [ollamaUrl]);
+
+  useEffect(() => () => pullAbortRef.current?.abort(), []);
+
+  const handlePull = async () => {
+    const name = pullName.trim();
+    if (!name || pullAbortRef.current) return;
+
+    const controller = new AbortController();
+    pullAbortRef.current = controller;
+    setPullProgress({ status: 'starting' });
+    try {
+      await pullModel(ollamaUrl, name, setPullProgress, controller.signal);
+      toast({ description: `Pulled ${name}` });
+      setPullName('');
+      onModelsChanged();
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        toast({ variant: 'destructive', description: `Pull failed: ${(error as Error).message}` });
+      }
+    } finally {
+      pullAbortRef.current = null;
+      setPullProgress(null);
+    }
+  };
+
+  const toggleDetails = async (name: string) => {
+    if (expanded === name) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(name);
+    if (details[name]) return;
+
+    try {
+      const info = await showModel(ollamaUrl, name);
+      setDetails(prev => ({ ...prev, [name]: info }));
+    } catch (error) {
+      toast({ variant: 'destructive', description: `Could not load details: ${(error as Error).message}` });
+      setExpanded(null);
+    }
+  };
+
+  const runModelAction = async (name: string, action: () => Promise<void>, success: string) => {
+    setBusyModel(name);
+    try {
+      await action();
+      toast({ description: success });
+      setRowMode(null);
+      onModelsChanged();
+    } catch (error) {
+      toast({ variant: 'destructive', description: (error as Error).message });
+    } finally {
+      setBusyModel(null);
+    }
+  };
+
+  const pullPercent = pullProgress?.total
+    ? Math.round(((pullProgress.completed ?? 0) / pullProgress.total) * 100)
+    : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Models</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Pull a model</label>
+          <div className="flex gap-2">
+            <Input
+              value={pullName}
+              onChange={(e) => setPullName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handlePull()}
+              placeholder="qwen2.5-coder:7b"
+              disabled={!!pullProgress}
+            />
+            {pullProgress ? (
+              <Button variant="destructive" onClick={() => pullAbortRef.current?.abort()}>
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={handlePull} disabled={!pullName.trim()}>
+                <Download className="w-4 h-4 mr-1" />
+                Pull
+              </Button>
+            )}
+          </div>
+          {pullProgress && (
+            <div className="space-y-1">
+              <Progress value={pullPercent ?? 0} className={pullPercent === undefined ? 'animate-pulse' : ''} />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{pullProgress.status}</span>
+                {pullProgress.total ? (
+                  <span>
+                    {formatBytes(pullProgress.completed)} / {formatBytes(pullProgress.total)} ({pullPercent}%)
+                  </span>
+                ) : null}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <ScrollArea className="max-h-[50vh]">
+          <div className="space-y-1 pr-3">
+            {models.length === 0 && (
+              <div className="text-sm text-muted-foreground text-center py-6">No models installed yet.</div>
+            )}
+            {models.map((model) => (
+              <div key={model.name} className="rounded border border-border p-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{model.name}</div>
+                    <div className="flex flex-wrap gap-1 mt-0.5">
+                      <Badge variant="outline" className="text-[10px]">{formatBytes(model.size)}</Badge>
+                      {model.details?.parameter_size && (
+                        <Badge variant="outline" className="text-[10px]">{model.details.parameter_size}</Badge>
+                      )}
+                      {model.details?.quantization_level && (
+                        <Badge variant="outline" className="text-[10px]">{model.details.quantization_level}</Badge>
+                      )}
+                    </div>
+                  </div>
+                  {busyModel === model.name ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : rowMode?.name === model.name && rowMode.kind === 'copy' ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={copyName}
+                        onChange={(e) => setCopyName(e.target.value)}
+                        placeholder="new-name:tag"
+                        className="h-7 w-40 text-xs"
+                        autoFocus
+                      />
+                      <Button
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        disabled={!copyName.trim()}
+                        onClick={() => runModelAction(
+                          model.name,
+                          () => copyModel(ollamaUrl, model.name, copyName.trim()),
+                          `Copied to ${copyName.trim()}`
+                        )}
+                      >
+                        <Check className="w-3 h-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setRowMode(null)}>
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ) : rowMode?.name === model.name && rowMode.kind === 'delete' ? (
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs text-destructive">Delete?</span>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => runModelAction(
+                          model.name,
+                          () => deleteModel(ollamaUrl, model.name),
+                          `Deleted ${model.name}`
+                        )}
+                      >
+                        <Check className="w-3 h-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setRowMode(null)}>
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Details" onClick={() => toggleDetails(model.name)}>
+                        <Info className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        title="Copy"
+                        onClick={() => {
+                          setCopyName(`${model.name.split(':')[0]}-copy`);
+                          setRowMode({ name: model.name, kind: 'copy' });
+                        }}
+                      >
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        title="Delete"
+                        onClick={() => setRowMode({ name: model.name, kind: 'delete' })}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {expanded === model.name && (
+                  details[model.name]
+                    ? <ModelDetails info={details[model.name]} />
+                    : <Loader2 className="w-4 h-4 mt-2 animate-spin text-muted-foreground" />
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
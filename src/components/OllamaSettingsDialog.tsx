@@ -0,0 +1,441 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Settings, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { GenerationSettingsForm } from '@/components/GenerationSettingsForm';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import { useProviderCapabilities } from '@/hooks/use-provider';
+import type { GenerationSettings } from '@/lib/generation-settings';
+import {
+  DEFAULT_OLLAMA_URL,
+  DEFAULT_OPENAI_URL,
+  KEEP_ALIVE_OPTIONS,
+  ollamaUrlSchema,
+  validateOllamaUrl,
+  type ConnectionProfile
+} from '@/lib/ollama-settings';
+import { PROVIDER_LABELS, type ModelFeature, type ProviderKind, type ProviderModel } from '@/lib/provider';
+import { RETRIEVAL_MIN_FILES } from '@/lib/retrieval';
+
+const DEFAULT_URLS: Record<ProviderKind, string> = {
+  ollama: DEFAULT_OLLAMA_URL,
+  openai: DEFAULT_OPENAI_URL
+};
+
+interface OllamaSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  availableModels: ProviderModel[];
+  selectedModel: string;
+  onModelChange: (model: string) => void;
+  onTestConnection: (profile: ConnectionProfile) => void;
+  generation: GenerationSettings;
+  onGenerationChange: (settings: GenerationSettings) => void;
+}
+
+// Radix Select can't use an empty string as an item value
+const CHAT_MODEL_VALUE = '__chat__';
+const NO_MODEL_VALUE = '__none__';
+
+const DECLARED_FEATURE_LABELS: { feature: ModelFeature; label: string }[] = [
+  { feature: 'tools', label: 'Tool calling (agent mode)' },
+  { feature: 'vision', label: 'Images in prompts' },
+  { feature: 'completion', label: 'Fill-in-the-middle' },
+  { feature: 'embeddings', label: 'Embeddings' }
+];
+
+export function OllamaSettingsDialog({
+  open,
+  onOpenChange,
+  availableModels,
+  selectedModel,
+  onModelChange,
+  onTestConnection,
+  generation,
+  onGenerationChange
+}: OllamaSettingsDialogProps) {
+  const {
+    profiles,
+    activeProfile,
+    presets,
+    updateProfile,
+    addProfile,
+    removeProfile,
+    setActiveProfile,
+    savePreset,
+    deletePreset,
+    completion,
+    updateCompletion,
+    retrieval,
+    updateRetrieval
+  } = useOllamaSettings();
+  const completionCapabilities = useProviderCapabilities(activeProfile.completionModel || selectedModel);
+  const embeddingCapabilities = useProviderCapabilities(activeProfile.embeddingModel);
+  const [draftUrl, setDraftUrl] = useState(activeProfile.url);
+  const [urlError, setUrlError] = useState<string | null>(null);
+
+  // Editing happens on a draft so a half-typed URL is never saved
+  useEffect(() => {
+    setDraftUrl(activeProfile.url);
+    setUrlError(null);
+  }, [activeProfile.id, activeProfile.url, open]);
+
+  const handleProfileChange = (id: string) => {
+    setActiveProfile(id);
+    const profile = profiles.find(candidate => candidate.id === id);
+    if (profile) onTestConnection(profile);
+  };
+
+  const handleAddProfile = () => {
+    const profile = addProfile(`Profile ${profiles.length + 1}`, DEFAULT_OLLAMA_URL);
+    onTestConnection(profile);
+  };
+
+  const handleRemoveProfile = () => {
+    const fallback = profiles.find(profile => profile.id !== activeProfile.id);
+    removeProfile(activeProfile.id);
+    if (fallback) onTestConnection(fallback);
+  };
+
+  const handleSaveAndTest = () => {
+    const error = validateOllamaUrl(draftUrl);
+    setUrlError(error);
+    if (error) return;
+
+    const url = ollamaUrlSchema.parse(draftUrl);
+    updateProfile(activeProfile.id, { url });
+    onTestConnection({ ...activeProfile, url });
+  };
+
+  // Swap in the new backend's usual address unless the user already typed their own
+  const handleProviderChange = (provider: ProviderKind) => {
+    const url = activeProfile.url === DEFAULT_URLS[activeProfile.provider] ? DEFAULT_URLS[provider] : activeProfile.url;
+    updateProfile(activeProfile.id, { provider, url, model: '' });
+    onTestConnection({ ...activeProfile, provider, url, model: '' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+          <Settings className="w-3 h-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>AI Settings</DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="connection">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="connection">Connection</TabsTrigger>
+            <TabsTrigger value="generation">Generation</TabsTrigger>
+            <TabsTrigger value="completion">Completion</TabsTrigger>
+            <TabsTrigger value="retrieval">Retrieval</TabsTrigger>
+          </TabsList>
+          <TabsContent value="connection" className="space-y-4">
+            <div>
+              <label className="text-sm font-medium">Connection profile</label>
+              <div className="flex gap-2 mt-1">
+                <Select value={activeProfile.id} onValueChange={handleProfileChange}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" onClick={handleAddProfile} title="Add profile">
+                  <Plus className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={handleRemoveProfile}
+                  disabled={profiles.length <= 1}
+                  title="Delete profile"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Profile name</label>
+              <Input
+                value={activeProfile.name}
+                onChange={(e) => updateProfile(activeProfile.id, { name: e.target.value })}
+                onBlur={(e) => !e.target.value.trim() && updateProfile(activeProfile.id, { name: 'Untitled' })}
+                placeholder="GPU server"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Backend</label>
+              <Select value={activeProfile.provider} onValueChange={(value) => handleProviderChange(value as ProviderKind)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {PROVIDER_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {activeProfile.provider === 'openai' && (
+                <p className="text-[10px] text-muted-foreground mt-0.5">
+                  For servers with a /v1/chat/completions API: llama.cpp server, LM Studio, vLLM.
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="text-sm font-medium">Server URL</label>
+              <Input
+                value={draftUrl}
+                onChange={(e) => {
+                  setDraftUrl(e.target.value);
+                  setUrlError(null);
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveAndTest()}
+                placeholder={DEFAULT_URLS[activeProfile.provider]}
+                className={`mt-1 ${urlError ? 'border-destructive' : ''}`}
+              />
+              {urlError && <p className="text-xs text-destructive mt-1">{urlError}</p>}
+            </div>
+            {activeProfile.provider === 'openai' && (
+              <div>
+                <label className="text-sm font-medium">API key</label>
+                <Input
+                  type="password"
+                  value={activeProfile.apiKey}
+                  onChange={(e) => updateProfile(activeProfile.id, { apiKey: e.target.value })}
+                  placeholder="Optional"
+                  autoComplete="off"
+                  className="mt-1"
+                />
+                <p className="text-[10px] text-muted-foreground mt-0.5">Stored in this browser's local storage.</p>
+              </div>
+            )}
+            {activeProfile.provider === 'openai' && (
+              <div>
+                <label className="text-sm font-medium">Model features</label>
+                <p className="text-[10px] text-muted-foreground mt-0.5">
+                  Used when the server's model list doesn't say what a model supports.
+                </p>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {DECLARED_FEATURE_LABELS.map(({ feature, label }) => (
+                    <label key={feature} className="flex items-center gap-2 text-xs">
+                      <Switch
+                        checked={activeProfile.declaredFeatures[feature]}
+                        onCheckedChange={(checked) => updateProfile(activeProfile.id, {
+                          declaredFeatures: { ...activeProfile.declaredFeatures, [feature]: checked }
+                        })}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="text-sm font-medium">Model</label>
+              <Select value={selectedModel} onValueChange={onModelChange}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Select a model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableModels.map((model) => (
+                    <SelectItem key={model.name} value={model.name}>
+                      {model.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {activeProfile.provider === 'ollama' && (
+              <div>
+                <label className="text-sm font-medium">Keep model loaded</label>
+                <Select
+                  value={activeProfile.keepAlive}
+                  onValueChange={(keepAlive) => updateProfile(activeProfile.id, { keepAlive })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {KEEP_ALIVE_OPTIONS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-[10px] text-muted-foreground mt-0.5">
+                  Sent as keep_alive with every request. Loading a model is what makes the first reply slow.
+                </p>
+              </div>
+            )}
+            <Button onClick={handleSaveAndTest} className="w-full">
+              Save & Test Connection
+            </Button>
+          </TabsContent>
+          <TabsContent value="generation">
+            <p className="text-xs text-muted-foreground mb-3">
+              Applies to the current chat. Model presets are used by chats that haven't been customised.
+            </p>
+            <GenerationSettingsForm
+              settings={generation}
+              onChange={onGenerationChange}
+              model={selectedModel}
+              hasPreset={!!presets[selectedModel]}
+              onSavePreset={() => savePreset(selectedModel, generation)}
+              onDeletePreset={() => deletePreset(selectedModel)}
+            />
+          </TabsContent>
+          <TabsContent value="completion" className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium">Inline completions</label>
+                <p className="text-xs text-muted-foreground">Ghost text in the editor. Tab accepts, Esc dismisses.</p>
+              </div>
+              <Switch checked={completion.enabled} onCheckedChange={(enabled) => updateCompletion({ enabled })} />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Completion model</label>
+              <Select
+                value={activeProfile.completionModel || CHAT_MODEL_VALUE}
+                onValueChange={(model) =>
+                  updateProfile(activeProfile.id, { completionModel: model === CHAT_MODEL_VALUE ? '' : model })
+                }
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CHAT_MODEL_VALUE}>Same as chat model</SelectItem>
+                  {availableModels.map((model) => (
+                    <SelectItem key={model.name} value={model.name}>
+                      {model.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[10px] text-muted-foreground mt-0.5">
+                Needs a fill-in-the-middle model such as qwen2.5-coder, codellama:code or starcoder2.
+              </p>
+              {completionCapabilities && !completionCapabilities.completion && (
+                <p className="text-xs text-destructive mt-1">
+                  This model or server doesn't support fill-in-the-middle, so no suggestions will appear.
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium">Delay (ms)</label>
+                <Input
+                  type="number"
+                  min={100}
+                  value={completion.debounceMs}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (!Number.isNaN(value)) updateCompletion({ debounceMs: Math.max(100, value) });
+                  }}
+                  className="mt-1 h-8"
+                />
+                <p className="text-[10px] text-muted-foreground mt-0.5">Pause before asking</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Max tokens</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={completion.maxTokens}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (!Number.isNaN(value)) updateCompletion({ maxTokens: Math.max(1, value) });
+                  }}
+                  className="mt-1 h-8"
+                />
+                <p className="text-[10px] text-muted-foreground mt-0.5">Length of each suggestion</p>
+              </div>
+            </div>
+          </TabsContent>
+          <TabsContent value="retrieval" className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium">Project retrieval</label>
+                <p className="text-xs text-muted-foreground">
+                  For projects with more than {RETRIEVAL_MIN_FILES - 1} files, relevant code is found and added to each question.
+                </p>
+              </div>
+              <Switch checked={retrieval.enabled} onCheckedChange={(enabled) => updateRetrieval({ enabled })} />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Embedding model</label>
+              <Select
+                value={activeProfile.embeddingModel || NO_MODEL_VALUE}
+                onValueChange={(model) =>
+                  updateProfile(activeProfile.id, { embeddingModel: model === NO_MODEL_VALUE ? '' : model })
+                }
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MODEL_VALUE}>None</SelectItem>
+                  {availableModels.map((model) => (
+                    <SelectItem key={model.name} value={model.name}>
+                      {model.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[10px] text-muted-foreground mt-0.5">
+                An embedding model such as nomic-embed-text or mxbai-embed-large.
+              </p>
+              {embeddingCapabilities && !embeddingCapabilities.embeddings && (
+                <p className="text-xs text-destructive mt-1">
+                  This model or server can't create embeddings, so the project won't be indexed.
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="text-sm font-medium">Snippets per question</label>
+              <Input
+                type="number"
+                min={1}
+                max={20}
+                value={retrieval.topK}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!Number.isNaN(value)) updateRetrieval({ topK: Math.min(20, Math.max(1, value)) });
+                }}
+                className="mt-1 h-8 w-24"
+              />
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { MarkdownMessage } from '@/components/MarkdownMessage';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import type { PreviewFixRun } from '@/hooks/use-preview-fix';
+import { formatPreviewEntry } from '@/lib/preview';
+
+interface PreviewFixDialogProps {
+  run: PreviewFixRun | null;
+  onClose: () => void;
+}
+
+export function PreviewFixDialog({ run, onClose }: PreviewFixDialogProps) {
+  const { previewFix, updatePreviewFix } = useOllamaSettings();
+  const working = run?.status === 'streaming' || run?.status === 'checking';
+
+  return (
+    <Dialog open={!!run} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {working && <Loader2 className="w-4 h-4 animate-spin" />}
+            Fix error in {run?.fileName}
+            {run && run.maxAttempts > 1 && (
+              <span className="text-xs font-normal text-muted-foreground">
+                attempt {run.attempt} of {run.maxAttempts}
+              </span>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        {run && (
+          <pre className="max-h-24 overflow-auto rounded-md bg-destructive/10 p-2 text-xs text-destructive whitespace-pre-wrap">
+            {formatPreviewEntry(run.problem)}
+            {run.problem.stack && `\n${run.problem.stack}`}
+          </pre>
+        )}
+
+        <ScrollArea className="max-h-[50vh]">
+          {run?.content ? (
+            <MarkdownMessage content={run.content} streaming={run.status === 'streaming'} />
+          ) : working ? (
+            <div className="text-sm text-muted-foreground">Waiting for the model...</div>
+          ) : null}
+          {run?.status === 'checking' && (
+            <div className="text-sm text-muted-foreground mt-2">Running the fix in the preview...</div>
+          )}
+          {run?.status === 'error' && (
+            <div className="text-sm text-destructive mt-2">{run.error}</div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Switch
+              checked={previewFix.autoRetry}
+              onCheckedChange={(autoRetry) => updatePreviewFix({ autoRetry })}
+              disabled={working}
+            />
+            Retry until the preview runs clean, up to
+            <Input
+              type="number"
+              min={1}
+              max={10}
+              value={previewFix.maxAttempts}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (!Number.isNaN(value)) updatePreviewFix({ maxAttempts: Math.min(10, Math.max(1, value)) });
+              }}
+              disabled={working || !previewFix.autoRetry}
+              className="h-6 w-14 text-xs"
+            />
+            attempts
+          </div>
+          <Button variant={working ? 'destructive' : 'outline'} size="sm" onClick={onClose}>
+            {working ? 'Cancel' : 'Close'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,35 +1,58 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { RefreshCw, ExternalLink, Monitor } from 'lucide-react';
+import { RefreshCw, ExternalLink, Monitor, AlertCircle, Wand2, X, Camera } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { canvasToChatImage, type ChatImage } from '@/lib/chat-images';
+import { buildPreviewDocument, capturePreview, readPreviewMessage, type PreviewLogEntry } from '@/lib/preview';
 
 interface PreviewPaneProps {
   htmlContent: string;
   cssContent: string;
   jsContent: string;
+  onFixError?: (error: PreviewLogEntry) => void;
+  onScreenshot?: (image: ChatImage) => void;
 }
 
-export function PreviewPane({ htmlContent, cssContent, jsContent }: PreviewPaneProps) {
-  const createPreviewContent = () => {
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Preview</title>
-  <style>
-    ${cssContent}
-  </style>
-</head>
-<body>
-  ${htmlContent}
-  <script>
-    ${jsContent}
-  </script>
-</body>
-</html>
-    `;
-  };
+interface CapturedError {
+  entry: PreviewLogEntry;
+  count: number;
+}
+
+export function PreviewPane({ htmlContent, cssContent, jsContent, onFixError, onScreenshot }: PreviewPaneProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const { toast } = useToast();
+  const [errors, setErrors] = useState<CapturedError[]>([]);
+  const preview = useMemo(
+    () => buildPreviewDocument({ html: htmlContent, css: cssContent, js: jsContent }, { capture: true }),
+    [htmlContent, cssContent, jsContent]
+  );
+
+  const createPreviewContent = () =>
+    buildPreviewDocument({ html: htmlContent, css: cssContent, js: jsContent }).html;
+
+  // Errors belong to the page that raised them
+  useEffect(() => {
+    setErrors([]);
+  }, [preview]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      const entry = readPreviewMessage(event.data, preview.scriptStartLine);
+      if (entry?.level !== 'error') return;
+
+      // A loop that keeps failing shows up once with a count
+      setErrors(prev => {
+        const existing = prev.find(error => error.entry.message === entry.message && error.entry.line === entry.line);
+        return existing
+          ? prev.map(error => (error === existing ? { ...error, count: error.count + 1 } : error))
+          : [...prev, { entry, count: 1 }];
+      });
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [preview]);
 
   const openInNewTab = () => {
     const newWindow = window.open('', '_blank');
@@ -39,6 +62,16 @@ export function PreviewPane({ htmlContent, cssContent, jsContent }: PreviewPaneP
     }
   };
 
+  const takeScreenshot = async () => {
+    if (!iframeRef.current || !onScreenshot) return;
+    try {
+      onScreenshot(canvasToChatImage(await capturePreview(iframeRef.current), 'preview.png'));
+      toast({ description: 'Preview screenshot added to the chat' });
+    } catch (error) {
+      toast({ variant: 'destructive', description: (error as Error).message });
+    }
+  };
+
   return (
     <Card className="flex flex-col h-full bg-card border-border">
       <div className="flex items-center justify-between p-3 border-b border-border bg-secondary">
@@ -47,6 +80,17 @@ export function PreviewPane({ htmlContent, cssContent, jsContent }: PreviewPaneP
           <span className="font-medium text-foreground">Preview</span>
         </div>
         <div className="flex items-center gap-2">
+          {onScreenshot && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={takeScreenshot}
+              className="h-8 w-8 p-0"
+              title="Attach a screenshot of the preview to the chat"
+            >
+              <Camera className="w-4 h-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -68,12 +112,42 @@ export function PreviewPane({ htmlContent, cssContent, jsContent }: PreviewPaneP
       
       <div className="flex-1 bg-background">
         <iframe
-          srcDoc={createPreviewContent()}
+          ref={iframeRef}
+          srcDoc={preview.html}
           className="w-full h-full border-0"
           sandbox="allow-scripts allow-same-origin"
           title="Code Preview"
         />
       </div>
+
+      {errors.length > 0 && (
+        <div className="max-h-32 overflow-y-auto border-t border-border bg-destructive/10">
+          <div className="flex items-center justify-between px-3 py-1 text-xs text-destructive">
+            <span className="flex items-center gap-1 font-medium">
+              <AlertCircle className="w-3 h-3" />
+              {errors.length} error{errors.length === 1 ? '' : 's'} in the preview
+            </span>
+            <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={() => setErrors([])} title="Clear">
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+          {errors.map(({ entry, count }) => (
+            <div key={`${entry.message}:${entry.line}`} className="flex items-center gap-2 px-3 py-1 text-xs border-t border-border/50">
+              <span className="flex-1 font-mono truncate text-destructive" title={entry.stack || entry.message}>
+                {entry.message}
+                {entry.line !== undefined && <span className="text-muted-foreground"> · line {entry.line}</span>}
+                {count > 1 && <span className="text-muted-foreground"> ×{count}</span>}
+              </span>
+              {onFixError && (
+                <Button variant="outline" size="sm" className="h-5 px-2 text-[10px]" onClick={() => onFixError(entry)}>
+                  <Wand2 className="w-3 h-3 mr-1" />
+                  Fix with AI
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { downloadTextFile } from '@/lib/download';
+import {
+  BUILTIN_TEMPLATES,
+  TEMPLATE_VARIABLES,
+  exportTemplatesJson,
+  parseTemplatesJson,
+  promptTemplateSchema,
+  type PromptTemplate
+} from '@/lib/prompt-templates';
+
+interface PromptTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: PromptTemplate[];
+  customTemplates: PromptTemplate[];
+  onSave: (template: PromptTemplate, previousCommand?: string) => void;
+  onDelete: (command: string) => void;
+  onImport: (templates: PromptTemplate[]) => void;
+}
+
+interface Draft {
+  previousCommand?: string;
+  command: string;
+  description: string;
+  template: string;
+}
+
+const EMPTY_DRAFT: Draft = { command: '', description: '', template: '' };
+
+export function PromptTemplatesDialog({
+  open,
+  onOpenChange,
+  templates,
+  customTemplates,
+  onSave,
+  onDelete,
+  onImport
+}: PromptTemplatesDialogProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const customCommands = new Set(customTemplates.map(template => template.command));
+  const builtinCommands = new Set(BUILTIN_TEMPLATES.map(template => template.command));
+
+  const startEdit = (next: Draft) => {
+    setDraft(next);
+    setDraftError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const result = promptTemplateSchema.safeParse(draft);
+    if (!result.success) {
+      setDraftError(result.error.issues[0].message);
+      return;
+    }
+    onSave(result.data, draft.previousCommand);
+    setDraft(null);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseTemplatesJson(await file.text());
+      onImport(imported);
+      toast({ description: `Imported ${imported.length} template${imported.length === 1 ? '' : 's'}` });
+    } catch (error) {
+      toast({ variant: 'destructive', description: (error as Error).message });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Prompt templates</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => startEdit(EMPTY_DRAFT)}>
+            <Plus className="w-3 h-3 mr-1" />
+            New
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-3 h-3 mr-1" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={customTemplates.length === 0}
+            onClick={() => downloadTextFile('prompt-templates.json', exportTemplatesJson(customTemplates))}
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Export
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </div>
+
+        {draft ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="text-sm font-medium">Command</label>
+                <div className="flex items-center mt-1">
+                  <span className="text-sm text-muted-foreground mr-1">/</span>
+                  <Input
+                    value={draft.command}
+                    onChange={(e) => setDraft({ ...draft, command: e.target.value })}
+                    placeholder="review"
+                    className="h-8"
+                  />
+                </div>
+              </div>
+              <div className="col-span-2">
+                <label className="text-sm font-medium">Description</label>
+                <Input
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  placeholder="Shown in the autocomplete list"
+                  className="mt-1 h-8"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Template</label>
+              <Textarea
+                value={draft.template}
+                onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                className="mt-1 min-h-[140px] font-mono text-xs"
+              />
+              <p className="text-[10px] text-muted-foreground mt-0.5">
+                Variables: {TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(', ')}. {'{{input}}'} is the text typed after the command.
+              </p>
+            </div>
+            {draftError && <p className="text-xs text-destructive">{draftError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[50vh]">
+            <div className="space-y-1 pr-3">
+              {templates.map((template) => (
+                <div key={template.command} className="flex items-center gap-2 rounded border border-border p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-mono">/{template.command}</span>
+                      {!customCommands.has(template.command) && (
+                        <Badge variant="outline" className="text-[10px]">Built-in</Badge>
+                      )}
+                      {customCommands.has(template.command) && builtinCommands.has(template.command) && (
+                        <Badge variant="outline" className="text-[10px]">Customised</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">{template.description}</div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Edit"
+                    onClick={() => startEdit({ ...EMPTY_DRAFT, ...template, previousCommand: template.command })}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  {customCommands.has(template.command) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title={builtinCommands.has(template.command) ? 'Restore built-in' : 'Delete'}
+                      onClick={() => onDelete(template.command)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Cpu, Loader2, Pin, PinOff, Power } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { formatBytes, setModelKeepAlive, type OllamaRunningModel } from '@/lib/ollama';
+
+interface RunningModelsPopoverProps {
+  ollamaUrl: string;
+  runningModels: OllamaRunningModel[];
+  selectedModel: string;
+  keepAlive: string;
+  onChanged: () => void;
+}
+
+// keep_alive -1 is reported as an expiry centuries away
+const isPinned = (model: OllamaRunningModel) =>
+  new Date(model.expires_at).getFullYear() - new Date().getFullYear() > 1;
+
+export function RunningModelsPopover({
+  ollamaUrl,
+  runningModels,
+  selectedModel,
+  keepAlive,
+  onChanged
+}: RunningModelsPopoverProps) {
+  const [busyModel, setBusyModel] = useState<string | null>(null);
+  const { toast } = useToast();
+  const selectedLoaded = runningModels.some(model => model.name === selectedModel);
+
+  const applyKeepAlive = async (model: string, value: string) => {
+    setBusyModel(model);
+    try {
+      await setModelKeepAlive(ollamaUrl, model, value);
+      onChanged();
+    } catch (error) {
+      toast({ variant: 'destructive', description: (error as Error).message });
+    } finally {
+      setBusyModel(null);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 px-1.5 text-xs gap-1 ${selectedLoaded ? 'text-terminal-green' : 'text-muted-foreground'}`}
+          title={selectedLoaded ? `${selectedModel} is loaded` : 'Loaded models'}
+        >
+          <Cpu className="w-3 h-3" />
+          {runningModels.length}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-3">
+        <div className="text-sm font-medium mb-2">Loaded models</div>
+        {runningModels.length === 0 && (
+          <div className="text-xs text-muted-foreground">Nothing is loaded in memory.</div>
+        )}
+        <div className="space-y-2">
+          {runningModels.map((model) => {
+            const pinned = isPinned(model);
+            const ram = model.size - model.size_vram;
+            return (
+              <div key={model.name} className="rounded border border-border p-2">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 truncate text-sm">{model.name}</span>
+                  {busyModel === model.name ? (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  ) : (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title={pinned ? 'Unpin (use the profile keep-alive)' : 'Keep loaded'}
+                        onClick={() => applyKeepAlive(model.name, pinned ? keepAlive : '-1')}
+                      >
+                        {pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        title="Unload now"
+                        onClick={() => applyKeepAlive(model.name, '0')}
+                      >
+                        <Power className="w-3 h-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  {formatBytes(model.size_vram)} VRAM
+                  {ram > 0 && ` · ${formatBytes(ram)} RAM`}
+                  {' · '}
+                  {pinned ? 'pinned' : `unloads ${formatDistanceToNow(new Date(model.expires_at), { addSuffix: true })}`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {selectedModel && !selectedLoaded && (
+          <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="flex-1">{selectedModel} is not loaded; the next reply will wait for it.</span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              disabled={busyModel === selectedModel}
+              onClick={() => applyKeepAlive(selectedModel, keepAlive)}
+            >
+              {busyModel === selectedModel ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Load now'}
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
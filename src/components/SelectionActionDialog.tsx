@@ -0,0 +1,54 @@
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { MarkdownMessage } from '@/components/MarkdownMessage';
+import type { SelectionActionRun } from '@/hooks/use-selection-action';
+
+interface SelectionActionDialogProps {
+  run: SelectionActionRun | null;
+  onClose: () => void;
+}
+
+export function SelectionActionDialog({ run, onClose }: SelectionActionDialogProps) {
+  const streaming = run?.status === 'streaming';
+
+  return (
+    <Dialog open={!!run} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {streaming && <Loader2 className="w-4 h-4 animate-spin" />}
+            {run?.action.label}: {run?.fileName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          {run?.content ? (
+            <MarkdownMessage content={run.content} streaming={streaming} />
+          ) : streaming ? (
+            <div className="text-sm text-muted-foreground">Waiting for the model...</div>
+          ) : null}
+          {run?.status === 'error' && (
+            <div className="text-sm text-destructive mt-2">{run.error}</div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter className="sm:justify-between">
+          <span className="text-xs text-muted-foreground self-center">
+            {run?.action.kind === 'edit' && streaming && 'The change opens for review when the model finishes.'}
+          </span>
+          <Button variant={streaming ? 'destructive' : 'outline'} size="sm" onClick={onClose}>
+            {streaming ? 'Cancel' : 'Close'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { withNewIds } from '@/lib/chat-export';
+import {
+  createThread,
+  deleteThread,
+  loadThreads,
+  saveThread,
+  type ChatMessage,
+  type ChatThread
+} from '@/lib/chat-store';
+
+// Streaming updates a thread on every token; writes are batched until edits settle.
+const SAVE_DELAY = 500;
+
+export function useChatThreads() {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState('');
+  const [isLoaded, setIsLoaded] = useState(false);
+  const dirtyIdsRef = useRef(new Set<string>());
+  // Latest threads for flushing outside render, e.g. while the page unloads
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+
+  const flushSaves = useCallback(() => {
+    const dirtyIds = dirtyIdsRef.current;
+    if (dirtyIds.size === 0) return;
+    dirtyIdsRef.current = new Set();
+    threadsRef.current
+      .filter(thread => dirtyIds.has(thread.id))
+      .forEach(thread => saveThread(thread).catch(() => undefined));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const start = (loaded: ChatThread[]) => {
+      if (cancelled) return;
+      const initial = loaded.length > 0 ? loaded : [createThread('')];
+      if (loaded.length === 0) dirtyIdsRef.current.add(initial[0].id);
+      setThreads(initial);
+      setActiveThreadId(initial[0].id);
+      setIsLoaded(true);
+    };
+
+    // Without IndexedDB (e.g. some private windows) chats still work, they just aren't kept
+    loadThreads().then(start).catch(() => start([]));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (dirtyIdsRef.current.size === 0) return;
+
+    const timeout = setTimeout(flushSaves, SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [threads, flushSaves]);
+
+  // Edits still waiting for the timer are written rather than dropped on unmount or reload
+  useEffect(() => {
+    window.addEventListener('beforeunload', flushSaves);
+    return () => {
+      window.removeEventListener('beforeunload', flushSaves);
+      flushSaves();
+    };
+  }, [flushSaves]);
+
+  const updateThread = useCallback((id: string, update: (thread: ChatThread) => Partial<ChatThread>) => {
+    dirtyIdsRef.current.add(id);
+    setThreads(prev => prev.map(thread =>
+      thread.id === id ? { ...thread, ...update(thread), updatedAt: new Date() } : thread
+    ));
+  }, []);
+
+  const setThreadMessages = useCallback((id: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+    updateThread(id, thread => ({ messages: update(thread.messages) }));
+  }, [updateThread]);
+
+  const renameThread = (id: string, title: string) => {
+    updateThread(id, () => ({ title }));
+  };
+
+  const newThread = (model: string): ChatThread => {
+    const thread = createThread(model);
+    dirtyIdsRef.current.add(thread.id);
+    setThreads(prev => [thread, ...prev]);
+    setActiveThreadId(thread.id);
+    return thread;
+  };
+
+  // Importing the same export twice gives two chats rather than overwriting the first
+  const importThread = (imported: ChatThread): ChatThread => {
+    const thread = threads.some(existing => existing.id === imported.id)
+      ? withNewIds(imported, createThread(imported.model).id)
+      : imported;
+    dirtyIdsRef.current.add(thread.id);
+    setThreads(prev => [thread, ...prev]);
+    setActiveThreadId(thread.id);
+    return thread;
+  };
+
+  const removeThread = (id: string) => {
+    deleteThread(id).catch(() => undefined);
+    dirtyIdsRef.current.delete(id);
+
+    const remaining = threads.filter(thread => thread.id !== id);
+    if (remaining.length === 0) {
+      const fresh = createThread(threads.find(thread => thread.id === id)?.model ?? '');
+      dirtyIdsRef.current.add(fresh.id);
+      setThreads([fresh]);
+      setActiveThreadId(fresh.id);
+      return;
+    }
+
+    setThreads(remaining);
+    if (id === activeThreadId) setActiveThreadId(remaining[0].id);
+  };
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId);
+
+  return {
+    threads,
+    activeThread,
+    isLoaded,
+    selectThread: setActiveThreadId,
+    newThread,
+    importThread,
+    renameThread,
+    removeThread,
+    updateThread,
+    setThreadMessages
+  };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import { useProvider, useProviderCapabilities } from '@/hooks/use-provider';
+
+// Enough surrounding code for the model without making every keystroke pay for the whole file
+const PREFIX_CHARS = 4000;
+const SUFFIX_CHARS = 1000;
+
+export interface InlineSuggestion {
+  text: string;
+  position: number;
+  // Editor content the suggestion was made for; any edit makes it stale
+  source: string;
+}
+
+export function useInlineCompletion() {
+  const { activeProfile, completion } = useOllamaSettings();
+  const [suggestion, setSuggestion] = useState<InlineSuggestion | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const timerRef = useRef<number>();
+  const abortRef = useRef<AbortController | null>(null);
+
+  const dismiss = useCallback(() => {
+    window.clearTimeout(timerRef.current);
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setSuggestion(null);
+    setIsFetching(false);
+  }, []);
+
+  const provider = useProvider();
+  const model = activeProfile.completionModel || activeProfile.model;
+  const { keepAlive } = activeProfile;
+  // Stay quiet until the model is known to support fill-in-the-middle
+  const supported = useProviderCapabilities(model)?.completion ?? false;
+  const enabled = completion.enabled && supported;
+  const { debounceMs, maxTokens } = completion;
+
+  const request = useCallback((source: string, position: number) => {
+    dismiss();
+    if (!enabled || !model) return;
+
+    // Ghost text would sit on top of the rest of the line, so only complete at line ends
+    const lineEnd = source.indexOf('\n', position);
+    if (source.slice(position, lineEnd === -1 ? undefined : lineEnd).trim()) return;
+
+    timerRef.current = window.setTimeout(async () => {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsFetching(true);
+      try {
+        const text = await provider.complete({
+          model,
+          prompt: source.slice(Math.max(0, position - PREFIX_CHARS), position),
+          suffix: source.slice(position, position + SUFFIX_CHARS),
+          maxTokens,
+          keepAlive,
+          signal: controller.signal
+        });
+        if (!controller.signal.aborted && text.trim()) {
+          setSuggestion({ text: text.replace(/\s+$/, ''), position, source });
+        }
+      } catch {
+        // Completions are best effort; a failed or cancelled request just shows nothing
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsFetching(false);
+        }
+      }
+    }, debounceMs);
+  }, [dismiss, enabled, model, provider, keepAlive, debounceMs, maxTokens]);
+
+  useEffect(() => dismiss, [dismiss]);
+
+  return { suggestion, isFetching, enabled: enabled && !!model, request, dismiss };
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import { detectModelCapabilities, useProvider } from '@/hooks/use-provider';
+import { buildContextWindow } from '@/lib/chat-context';
+import { omitImages } from '@/lib/chat-images';
+import { DEFAULT_GENERATION_SETTINGS } from '@/lib/generation-settings';
+import { toGenerationMetrics, type GenerationMetrics } from '@/lib/metrics';
+import type { ProviderChatMessage } from '@/lib/provider';
+
+export const COMPARE_MIN_MODELS = 2;
+export const COMPARE_MAX_MODELS = 4;
+
+// One model's answer to the compared prompt
+export interface CompareRun {
+  model: string;
+  content: string;
+  status: 'queued' | 'streaming' | 'complete' | 'stopped' | 'error';
+  metrics?: GenerationMetrics;
+  error?: string;
+}
+
+export function useModelCompare() {
+  const { activeProfile, presets } = useOllamaSettings();
+  const provider = useProvider();
+  const [runs, setRuns] = useState<CompareRun[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  /**
+   * Sends `history` to each model with its own saved generation settings.
+   * Parallel runs start together and compete for memory and GPU; queued ones
+   * go one after another, so latency reflects each model alone.
+   */
+  const start = async (history: ProviderChatMessage[], models: string[], parallel: boolean) => {
+    stop();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRuns(models.map(model => ({ model, content: '', status: 'queued' })));
+    setIsRunning(true);
+
+    const update = (model: string, changes: Partial<CompareRun>) =>
+      setRuns(prev => prev.map(run => (run.model === model ? { ...run, ...changes } : run)));
+
+    // Earlier images only go to the models that can read them
+    const hasImages = history.some(message => message.images && message.images.length > 0);
+    const historyFor = async (model: string) => {
+      if (!hasImages) return history;
+      const detected = await detectModelCapabilities(provider, activeProfile, model);
+      return detected.vision ?? activeProfile.declaredFeatures.vision ? history : omitImages(history);
+    };
+
+    const runModel = async (model: string) => {
+      if (controller.signal.aborted) {
+        update(model, { status: 'stopped' });
+        return;
+      }
+      const settings = presets[model] ?? DEFAULT_GENERATION_SETTINGS;
+      const startedAt = performance.now();
+      let firstTokenMs: number | undefined;
+      let streamed = '';
+      update(model, { status: 'streaming' });
+
+      try {
+        const messages = await historyFor(model);
+        const { text, usage } = await provider.stream({
+          model,
+          messages: buildContextWindow(settings.systemPrompt, messages, settings.options.num_ctx).messages,
+          keepAlive: activeProfile.keepAlive,
+          options: settings.options,
+          signal: controller.signal
+        }, (token) => {
+          firstTokenMs ??= performance.now() - startedAt;
+          streamed += token;
+          update(model, { content: streamed });
+        });
+        update(model, { content: text, status: 'complete', metrics: toGenerationMetrics(model, usage, firstTokenMs) });
+      } catch (error) {
+        update(model, controller.signal.aborted
+          ? { status: 'stopped' }
+          : { status: 'error', error: (error as Error).message });
+      }
+    };
+
+    try {
+      if (parallel) {
+        await Promise.all(models.map(runModel));
+      } else {
+        for (const model of models) await runModel(model);
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  };
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { runs, isRunning, start, stop };
+}
@@ -0,0 +1,123 @@
+import * as React from 'react';
+import type { GenerationSettings } from '@/lib/generation-settings';
+import {
+  createProfile,
+  loadOllamaSettings,
+  saveOllamaSettings,
+  type CompletionSettings,
+  type ConnectionProfile,
+  type JsonOutputSettings,
+  type OllamaSettings,
+  type PreviewFixSettings,
+  type RetrievalSettings
+} from '@/lib/ollama-settings';
+
+// One shared copy so every component sees the same profile, like the toast store
+const listeners: Array<(state: OllamaSettings) => void> = [];
+
+let memoryState: OllamaSettings = loadOllamaSettings();
+
+function setSettings(update: (state: OllamaSettings) => OllamaSettings) {
+  memoryState = update(memoryState);
+  saveOllamaSettings(memoryState);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function updateProfile(id: string, changes: Partial<Omit<ConnectionProfile, 'id'>>) {
+  setSettings(state => ({
+    ...state,
+    profiles: state.profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile))
+  }));
+}
+
+// Resolves the active profile when applied, so async callers can't write to a profile the user left
+function updateActiveProfile(update: (profile: ConnectionProfile) => Partial<Omit<ConnectionProfile, 'id'>>) {
+  setSettings(state => ({
+    ...state,
+    profiles: state.profiles.map(profile =>
+      profile.id === state.activeProfileId ? { ...profile, ...update(profile) } : profile
+    )
+  }));
+}
+
+function addProfile(name: string, url?: string) {
+  const profile = createProfile(name, url);
+  setSettings(state => ({ ...state, profiles: [...state.profiles, profile], activeProfileId: profile.id }));
+  return profile;
+}
+
+function removeProfile(id: string) {
+  setSettings(state => {
+    if (state.profiles.length <= 1) return state;
+    const profiles = state.profiles.filter(profile => profile.id !== id);
+    const activeProfileId = state.activeProfileId === id ? profiles[0].id : state.activeProfileId;
+    return { ...state, profiles, activeProfileId };
+  });
+}
+
+function setActiveProfile(id: string) {
+  setSettings(state => ({ ...state, activeProfileId: id }));
+}
+
+function savePreset(model: string, settings: GenerationSettings) {
+  setSettings(state => ({ ...state, presets: { ...state.presets, [model]: settings } }));
+}
+
+function deletePreset(model: string) {
+  setSettings(state => {
+    const { [model]: _removed, ...presets } = state.presets;
+    return { ...state, presets };
+  });
+}
+
+function updateCompletion(changes: Partial<CompletionSettings>) {
+  setSettings(state => ({ ...state, completion: { ...state.completion, ...changes } }));
+}
+
+function updateRetrieval(changes: Partial<RetrievalSettings>) {
+  setSettings(state => ({ ...state, retrieval: { ...state.retrieval, ...changes } }));
+}
+
+function updatePreviewFix(changes: Partial<PreviewFixSettings>) {
+  setSettings(state => ({ ...state, previewFix: { ...state.previewFix, ...changes } }));
+}
+
+function updateJsonOutput(changes: Partial<JsonOutputSettings>) {
+  setSettings(state => ({ ...state, jsonOutput: { ...state.jsonOutput, ...changes } }));
+}
+
+function useOllamaSettings() {
+  const [state, setState] = React.useState<OllamaSettings>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  const activeProfile = state.profiles.find(profile => profile.id === state.activeProfileId) ?? state.profiles[0];
+
+  return {
+    ...state,
+    activeProfile,
+    updateProfile,
+    updateActiveProfile,
+    addProfile,
+    removeProfile,
+    setActiveProfile,
+    savePreset,
+    deletePreset,
+    updateCompletion,
+    updateRetrieval,
+    updatePreviewFix,
+    updateJsonOutput
+  };
+}
+
+export { useOllamaSettings };
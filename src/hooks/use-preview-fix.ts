@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import { useProvider } from '@/hooks/use-provider';
+import type { ProjectFile } from '@/lib/files';
+import { DEFAULT_GENERATION_SETTINGS } from '@/lib/generation-settings';
+import { runPreview, type PreviewLogEntry, type PreviewSources } from '@/lib/preview';
+import { buildFixMessages, extractFixedFile, type FixAttempt } from '@/lib/preview-fix';
+
+export interface PreviewFixRun {
+  problem: PreviewLogEntry;
+  fileName: string;
+  attempt: number;
+  maxAttempts: number;
+  // The current attempt's reply
+  content: string;
+  status: 'streaming' | 'checking' | 'complete' | 'error';
+  error?: string;
+}
+
+export interface PreviewFixResult {
+  code: string;
+  // What the hidden preview still reported with the fix applied
+  remainingErrors: PreviewLogEntry[];
+}
+
+export function usePreviewFix() {
+  const { activeProfile, presets, previewFix } = useOllamaSettings();
+  const provider = useProvider();
+  const [run, setRun] = useState<PreviewFixRun | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const close = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRun(null);
+  }, []);
+
+  /**
+   * Asks for a corrected version of `file` and loads it in a hidden preview
+   * with the other sources unchanged. With auto-retry on, errors that remain
+   * are sent back for another attempt. Resolves with the last fix, or null
+   * when there is none.
+   */
+  const start = async (
+    problem: PreviewLogEntry,
+    file: ProjectFile,
+    sources: PreviewSources,
+    slot: keyof PreviewSources
+  ): Promise<PreviewFixResult | null> => {
+    close();
+    const model = activeProfile.model;
+    const maxAttempts = previewFix.autoRetry ? previewFix.maxAttempts : 1;
+    const base = { problem, fileName: file.path, attempt: 1, maxAttempts, content: '' };
+    if (!model) {
+      setRun({ ...base, status: 'error', error: 'Choose a model in AI settings first.' });
+      return null;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const attempts: FixAttempt[] = [];
+    let result: PreviewFixResult | null = null;
+
+    try {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        setRun({ ...base, attempt, status: 'streaming' });
+        const { text } = await provider.stream({
+          model,
+          messages: buildFixMessages(problem, file, attempts),
+          keepAlive: activeProfile.keepAlive,
+          options: (presets[model] ?? DEFAULT_GENERATION_SETTINGS).options,
+          signal: controller.signal
+        }, (token) => {
+          if (controller.signal.aborted) return;
+          setRun(prev => (prev ? { ...prev, content: prev.content + token } : prev));
+        });
+        if (controller.signal.aborted) return null;
+
+        const code = extractFixedFile(text);
+        if (code === null) {
+          setRun(prev => (prev ? { ...prev, status: 'error', error: "The reply didn't include a corrected file." } : prev));
+          return result;
+        }
+
+        setRun(prev => (prev ? { ...prev, content: text, status: 'checking' } : prev));
+        const errors = (await runPreview({ ...sources, [slot]: code })).filter(entry => entry.level === 'error');
+        if (controller.signal.aborted) return null;
+
+        result = { code, remainingErrors: errors };
+        if (errors.length === 0) break;
+        attempts.push({ code, errors });
+      }
+
+      setRun(prev => (prev ? { ...prev, status: 'complete' } : prev));
+      return result;
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setRun(prev => (prev ? { ...prev, status: 'error', error: (error as Error).message } : prev));
+      }
+      return null;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { run, start, close };
+}
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import {
+  loadCustomTemplates,
+  mergeTemplates,
+  saveCustomTemplates,
+  type PromptTemplate
+} from '@/lib/prompt-templates';
+
+export function usePromptTemplates() {
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(loadCustomTemplates);
+
+  const setTemplates = (update: (templates: PromptTemplate[]) => PromptTemplate[]) => {
+    setCustomTemplates(prev => {
+      const next = update(prev);
+      saveCustomTemplates(next);
+      return next;
+    });
+  };
+
+  // Saving under an existing command replaces that template
+  const saveTemplate = (template: PromptTemplate, previousCommand?: string) => {
+    setTemplates(prev => [
+      ...prev.filter(existing => existing.command !== template.command && existing.command !== previousCommand),
+      template
+    ]);
+  };
+
+  const deleteTemplate = (command: string) => {
+    setTemplates(prev => prev.filter(template => template.command !== command));
+  };
+
+  const importTemplates = (imported: PromptTemplate[]) => {
+    const importedCommands = new Set(imported.map(template => template.command));
+    setTemplates(prev => [...prev.filter(template => !importedCommands.has(template.command)), ...imported]);
+  };
+
+  return {
+    templates: mergeTemplates(customTemplates),
+    customTemplates,
+    saveTemplate,
+    deleteTemplate,
+    importTemplates
+  };
+}
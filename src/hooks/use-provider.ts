@@ -0,0 +1,68 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import type { ConnectionProfile } from '@/lib/ollama-settings';
+import {
+  createProvider,
+  type DetectedCapabilities,
+  type ModelProvider,
+  type ProviderCapabilities
+} from '@/lib/provider';
+
+// Detection costs a request to the server, so remember answers per server and model
+const capabilityCache = new Map<string, Promise<DetectedCapabilities>>();
+
+// A failed probe counts as unsupported
+export const detectModelCapabilities = (
+  provider: ModelProvider,
+  profile: Pick<ConnectionProfile, 'provider' | 'url'>,
+  model: string
+): Promise<DetectedCapabilities> => {
+  const key = `${profile.provider}|${profile.url}|${model}`;
+  if (!capabilityCache.has(key)) {
+    const detection = provider.detectCapabilities(model).catch(() => {
+      // The server may just be down; ask again next time
+      capabilityCache.delete(key);
+      return { completion: false, embeddings: false, tools: false, vision: false, modelManagement: provider.kind === 'ollama' };
+    });
+    capabilityCache.set(key, detection);
+  }
+  return capabilityCache.get(key)!;
+};
+
+export function useProvider(): ModelProvider {
+  const { activeProfile } = useOllamaSettings();
+  const { provider, url, apiKey } = activeProfile;
+  return useMemo(() => createProvider({ provider, url, apiKey }), [provider, url, apiKey]);
+}
+
+// Undefined until detection finishes. Features the server doesn't report come from what the profile declares.
+export function useProviderCapabilities(model: string): ProviderCapabilities | undefined {
+  const { activeProfile } = useOllamaSettings();
+  const provider = useProvider();
+  const [detected, setDetected] = useState<DetectedCapabilities>();
+  const { provider: kind, url, declaredFeatures } = activeProfile;
+
+  useEffect(() => {
+    setDetected(undefined);
+    if (!model) return;
+
+    let cancelled = false;
+    detectModelCapabilities(provider, { provider: kind, url }, model).then(result => {
+      if (!cancelled) setDetected(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, url, model, provider]);
+
+  return useMemo(
+    (): ProviderCapabilities | undefined => detected && {
+      completion: detected.completion ?? declaredFeatures.completion,
+      embeddings: detected.embeddings ?? declaredFeatures.embeddings,
+      tools: detected.tools ?? declaredFeatures.tools,
+      vision: detected.vision ?? declaredFeatures.vision,
+      modelManagement: detected.modelManagement
+    },
+    [detected, declaredFeatures]
+  );
+}
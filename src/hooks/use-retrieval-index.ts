@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import { useProvider } from '@/hooks/use-provider';
+import type { ProjectFile } from '@/lib/files';
+import {
+  countIndexedChunks,
+  createRetrievalIndex,
+  RETRIEVAL_MIN_FILES,
+  searchRetrievalIndex,
+  updateRetrievalIndex,
+  type RetrievalIndex,
+  type RetrievedChunk
+} from '@/lib/retrieval';
+
+// Wait for typing to pause before re-embedding the edited file
+const REINDEX_DELAY_MS = 1500;
+
+export interface RetrievalStatus {
+  state: 'off' | 'indexing' | 'ready' | 'error';
+  chunks: number;
+}
+
+/**
+ * Keeps an in-memory embedding index of the project once it has more than a
+ * few files, and finds the chunks most relevant to a prompt.
+ */
+export function useRetrievalIndex(files: ProjectFile[]) {
+  const { activeProfile, retrieval } = useOllamaSettings();
+  const provider = useProvider();
+  const model = activeProfile.embeddingModel;
+  const active = retrieval.enabled && !!model && files.length >= RETRIEVAL_MIN_FILES;
+  // The index survives until the server or model changes
+  const indexKey = `${activeProfile.provider} ${activeProfile.url} ${model}`;
+  const indexRef = useRef<RetrievalIndex>(createRetrievalIndex(indexKey));
+  const [status, setStatus] = useState<RetrievalStatus>({ state: 'off', chunks: 0 });
+
+  useEffect(() => {
+    if (!active) {
+      setStatus({ state: 'off', chunks: 0 });
+      return;
+    }
+    if (indexRef.current.model !== indexKey) {
+      indexRef.current = createRetrievalIndex(indexKey);
+    }
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      setStatus(prev => ({ ...prev, state: 'indexing' }));
+      try {
+        indexRef.current = await updateRetrievalIndex(
+          indexRef.current,
+          files,
+          input => provider.embed(model, input, controller.signal),
+          partial => {
+            indexRef.current = partial;
+          }
+        );
+        setStatus({ state: 'ready', chunks: countIndexedChunks(indexRef.current) });
+      } catch {
+        if (!controller.signal.aborted) {
+          setStatus({ state: 'error', chunks: countIndexedChunks(indexRef.current) });
+        }
+      }
+    }, REINDEX_DELAY_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [active, files, indexKey, model, provider]);
+
+  const { topK } = retrieval;
+  // Returns nothing rather than failing, so a chat still goes out without retrieved context
+  const search = useCallback(async (query: string): Promise<RetrievedChunk[]> => {
+    if (!active || countIndexedChunks(indexRef.current) === 0) return [];
+    try {
+      const [vector] = await provider.embed(model, [query]);
+      return vector ? searchRetrievalIndex(indexRef.current, vector, topK) : [];
+    } catch {
+      return [];
+    }
+  }, [active, model, provider, topK]);
+
+  return { status, active, search };
+}
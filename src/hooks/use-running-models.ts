@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { listRunningModels, type OllamaRunningModel } from '@/lib/ollama';
+
+// Load state changes on the server's schedule (keep-alive expiry), so poll for it
+const POLL_INTERVAL = 10_000;
+
+export function useRunningModels(ollamaUrl: string, enabled: boolean) {
+  const [runningModels, setRunningModels] = useState<OllamaRunningModel[]>([]);
+
+  // Servers without model management (OpenAI-compatible ones) have no /api/ps to ask
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+    try {
+      setRunningModels(await listRunningModels(ollamaUrl));
+    } catch {
+      // Older Ollama versions have no /api/ps; treat that as nothing loaded
+      setRunningModels([]);
+    }
+  }, [ollamaUrl, enabled]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setRunningModels([]);
+      return;
+    }
+
+    refresh();
+    const timer = window.setInterval(refresh, POLL_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [enabled, refresh]);
+
+  return { runningModels, refresh };
+}
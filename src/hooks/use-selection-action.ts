@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useOllamaSettings } from '@/hooks/use-ollama-settings';
+import { useProvider } from '@/hooks/use-provider';
+import { DEFAULT_GENERATION_SETTINGS } from '@/lib/generation-settings';
+import {
+  buildSelectionMessages,
+  type SelectionAction,
+  type SelectionContext
+} from '@/lib/selection-actions';
+
+export interface SelectionActionRun {
+  action: SelectionAction;
+  fileName: string;
+  content: string;
+  status: 'streaming' | 'complete' | 'error';
+  error?: string;
+}
+
+export function useSelectionAction() {
+  const { activeProfile, presets } = useOllamaSettings();
+  const provider = useProvider();
+  const [run, setRun] = useState<SelectionActionRun | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stops any reply still streaming and hides the result
+  const close = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRun(null);
+  }, []);
+
+  // Resolves with the full reply, or null when it failed or was cancelled
+  const start = async (action: SelectionAction, context: SelectionContext): Promise<string | null> => {
+    close();
+    const model = activeProfile.model;
+    if (!model) {
+      setRun({ action, fileName: context.fileName, content: '', status: 'error', error: 'Choose a model in AI settings first.' });
+      return null;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRun({ action, fileName: context.fileName, content: '', status: 'streaming' });
+
+    try {
+      const { text } = await provider.stream({
+        model,
+        messages: buildSelectionMessages(action, context),
+        keepAlive: activeProfile.keepAlive,
+        options: (presets[model] ?? DEFAULT_GENERATION_SETTINGS).options,
+        signal: controller.signal
+      }, (token) => {
+        if (controller.signal.aborted) return;
+        setRun(prev => (prev ? { ...prev, content: prev.content + token } : prev));
+      });
+
+      if (controller.signal.aborted) return null;
+      setRun(prev => (prev ? { ...prev, content: text, status: 'complete' } : prev));
+      return text;
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setRun(prev => (prev ? { ...prev, status: 'error', error: (error as Error).message } : prev));
+      }
+      return null;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { run, start, close };
+}
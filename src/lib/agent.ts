@@ -0,0 +1,155 @@
+import type { ProjectFile } from '@/lib/files';
+import { formatPreviewEntry, type PreviewLogEntry } from '@/lib/preview';
+import type { ProviderChatMessage, ProviderTool } from '@/lib/provider';
+
+// Model replies per run; each reply may ask for several tool calls
+export const AGENT_MAX_STEPS = 10;
+
+const MAX_SEARCH_RESULTS = 50;
+
+export type AgentToolName = 'list_files' | 'read_file' | 'write_file' | 'search' | 'run_preview';
+
+export interface AgentToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: 'pending' | 'running' | 'done' | 'denied' | 'error';
+  // What was sent back to the model
+  result?: string;
+}
+
+export interface AgentRunSummary {
+  steps: number;
+  changedFiles: string[];
+  outcome: 'done' | 'step-limit' | 'stopped' | 'error';
+}
+
+// How tool calls reach the project; supplied by the page that owns the file tree
+export interface AgentWorkspace {
+  getFiles: () => ProjectFile[];
+  // The project path a model-supplied path refers to, used for lookups, writes and results alike
+  resolvePath: (path: string) => string;
+  writeFile: (path: string, content: string) => void;
+  runPreview: () => Promise<PreviewLogEntry[]>;
+}
+
+export const AGENT_SYSTEM_PROMPT = `You are a coding agent working on a small web project made of HTML, CSS and JavaScript files.
+Use the tools to look at the project before changing it. Read a file before rewriting it, and always write complete file contents.
+After changing code, run the preview to check for errors. When the task is done, reply with a short summary instead of calling more tools.`;
+
+const tool = (name: AgentToolName, description: string, properties: Record<string, unknown> = {}): ProviderTool => ({
+  type: 'function',
+  function: {
+    name,
+    description,
+    parameters: { type: 'object', properties, required: Object.keys(properties) }
+  }
+});
+
+export const AGENT_TOOLS: ProviderTool[] = [
+  tool('list_files', 'List every file in the project with its line count.'),
+  tool('read_file', 'Read the full contents of a file.', {
+    path: { type: 'string', description: 'File path as shown by list_files' }
+  }),
+  tool('write_file', 'Create a file or replace its entire contents.', {
+    path: { type: 'string', description: 'File path, e.g. src/app.js' },
+    content: { type: 'string', description: 'The complete new contents of the file' }
+  }),
+  tool('search', 'Find lines containing some text, case-insensitively, across all files.', {
+    query: { type: 'string', description: 'Text to look for' }
+  }),
+  tool('run_preview', 'Load the page in the preview and report console output and errors.')
+];
+
+const normalizePath = (path: string) => path.trim().replace(/^\.?\/+/, '');
+
+const stringArgument = (call: AgentToolCall, name: string) => {
+  const value = call.arguments[name];
+  if (typeof value !== 'string') throw new Error(`Missing "${name}" argument`);
+  return value;
+};
+
+const findFile = (workspace: AgentWorkspace, path: string) => {
+  const resolved = workspace.resolvePath(normalizePath(path));
+  const file = workspace.getFiles().find(candidate => candidate.path === resolved);
+  if (!file) throw new Error(`No file at ${path}. Use list_files to see the project.`);
+  return file;
+};
+
+const countLines = (content: string) => content.split('\n').length;
+
+// Returns the text sent back to the model; throws for calls that can't be carried out
+export const executeAgentTool = async (call: AgentToolCall, workspace: AgentWorkspace): Promise<string> => {
+  switch (call.name as AgentToolName) {
+    case 'list_files': {
+      const files = workspace.getFiles();
+      return files.length > 0
+        ? files.map(file => `${file.path} (${countLines(file.content)} lines)`).join('\n')
+        : 'The project has no files.';
+    }
+    case 'read_file':
+      return findFile(workspace, stringArgument(call, 'path')).content;
+    case 'write_file': {
+      const requested = normalizePath(stringArgument(call, 'path'));
+      if (!requested) throw new Error('The path is empty');
+      const path = workspace.resolvePath(requested);
+      const content = stringArgument(call, 'content');
+      workspace.writeFile(path, content);
+      return `Wrote ${countLines(content)} lines to ${path}`;
+    }
+    case 'search': {
+      const query = stringArgument(call, 'query').toLowerCase();
+      if (!query) throw new Error('The query is empty');
+      const matches = workspace.getFiles().flatMap(file =>
+        file.content.split('\n').flatMap((line, index) =>
+          line.toLowerCase().includes(query) ? [`${file.path}:${index + 1}: ${line.trim()}`] : []
+        )
+      );
+      if (matches.length === 0) return 'No matches.';
+      const shown = matches.slice(0, MAX_SEARCH_RESULTS).join('\n');
+      return matches.length > MAX_SEARCH_RESULTS ? `${shown}\n(${matches.length - MAX_SEARCH_RESULTS} more matches not shown)` : shown;
+    }
+    case 'run_preview': {
+      const entries = await workspace.runPreview();
+      return entries.length > 0 ? entries.map(formatPreviewEntry).join('\n') : 'The page loaded with no console output or errors.';
+    }
+    default:
+      throw new Error(`Unknown tool ${call.name}`);
+  }
+};
+
+// One line for the chat timeline
+export const describeToolCall = (call: AgentToolCall): string => {
+  const path = typeof call.arguments.path === 'string' ? normalizePath(call.arguments.path) : '';
+  switch (call.name as AgentToolName) {
+    case 'list_files':
+      return 'List project files';
+    case 'read_file':
+      return `Read ${path}`;
+    case 'write_file':
+      return `Write ${path}${typeof call.arguments.content === 'string' ? ` (${countLines(call.arguments.content)} lines)` : ''}`;
+    case 'search':
+      return `Search for "${String(call.arguments.query ?? '')}"`;
+    case 'run_preview':
+      return 'Run the preview';
+    default:
+      return `Call ${call.name}`;
+  }
+};
+
+const DENIED_RESULT = 'The user denied this tool call. Do not retry it; continue without it or ask the user.';
+
+// An assistant turn that called tools, followed by one tool message per call
+export const toToolHistory = (content: string, calls: AgentToolCall[]): ProviderChatMessage[] => [
+  {
+    role: 'assistant',
+    content,
+    tool_calls: calls.map(call => ({ id: call.id, function: { name: call.name, arguments: call.arguments } }))
+  },
+  ...calls.map((call): ProviderChatMessage => ({
+    role: 'tool',
+    content: call.status === 'denied' ? DENIED_RESULT : call.result ?? 'The tool was not run.',
+    tool_name: call.name,
+    tool_call_id: call.id
+  }))
+];
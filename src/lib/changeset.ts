@@ -0,0 +1,50 @@
+import type { CodeBlock } from '@/lib/code-blocks';
+import type { ProjectFile } from '@/lib/files';
+
+export interface FileChange {
+  path: string;
+  // Undefined when the change creates a new file
+  fileId?: string;
+  original: string;
+  proposed: string;
+}
+
+export const normalizePath = (path: string) => path.trim().replace(/^\.?\//, '');
+
+/**
+ * Finds the project file a model-supplied path refers to. Models often drop
+ * the leading folder ("style.css" for "src/style.css"), so a unique suffix
+ * match is accepted as well.
+ */
+export const resolveProjectFile = (path: string, files: ProjectFile[]): ProjectFile | undefined => {
+  const target = normalizePath(path);
+  const exact = files.find(file => file.path === target);
+  if (exact) return exact;
+
+  const bySuffix = files.filter(file => file.path.endsWith(`/${target}`));
+  return bySuffix.length === 1 ? bySuffix[0] : undefined;
+};
+
+/**
+ * Turns the path-tagged code blocks of a reply into one change per file.
+ * When a file appears more than once the last block wins.
+ */
+export function buildChangeset(blocks: CodeBlock[], files: ProjectFile[]): FileChange[] {
+  const changes = new Map<string, FileChange>();
+
+  blocks
+    .filter(block => block.path && block.closed)
+    .forEach(block => {
+      const file = resolveProjectFile(block.path!, files);
+      const path = file ? file.path : normalizePath(block.path!);
+      changes.set(path, {
+        path,
+        fileId: file?.id,
+        original: file?.content ?? '',
+        proposed: block.code
+      });
+    });
+
+  // Drop blocks that would leave an existing file untouched
+  return [...changes.values()].filter(change => change.original !== change.proposed);
+}
@@ -0,0 +1,45 @@
+import type { ChatMessage } from '@/lib/chat-store';
+
+// Messages saved before branching existed have no parentId and follow the message before them
+const resolveParents = (messages: ChatMessage[]): (string | null)[] =>
+  messages.map((message, index) =>
+    message.parentId !== undefined ? message.parentId : messages[index - 1]?.id ?? null
+  );
+
+/**
+ * The conversation shown for a thread: the path from the first message down
+ * to `leafId`, or to the newest message when no branch was picked.
+ */
+export const getActiveBranch = (messages: ChatMessage[], leafId?: string): ChatMessage[] => {
+  const parents = resolveParents(messages);
+  const indexById = new Map(messages.map((message, index) => [message.id, index]));
+  const path: ChatMessage[] = [];
+
+  let index = (leafId !== undefined ? indexById.get(leafId) : undefined) ?? messages.length - 1;
+  while (index >= 0 && path.length < messages.length) {
+    path.unshift(messages[index]);
+    const parentId = parents[index];
+    index = parentId === null ? -1 : indexById.get(parentId) ?? -1;
+  }
+  return path;
+};
+
+// Alternatives for a message, including itself, oldest first
+export const getSiblings = (messages: ChatMessage[], id: string): ChatMessage[] => {
+  const parents = resolveParents(messages);
+  const index = messages.findIndex(message => message.id === id);
+  if (index === -1) return [];
+  return messages.filter((_, candidate) => parents[candidate] === parents[index]);
+};
+
+// Follows the newest reply at each level, so switching to a branch shows where it left off
+export const getLatestLeafId = (messages: ChatMessage[], id: string): string => {
+  const parents = resolveParents(messages);
+  let current = id;
+  for (let depth = 0; depth < messages.length; depth++) {
+    const childIndex = parents.lastIndexOf(current);
+    if (childIndex === -1) break;
+    current = messages[childIndex].id;
+  }
+  return current;
+};
@@ -0,0 +1,145 @@
+import type { OllamaChatMessage } from '@/lib/ollama';
+import type { ProjectFile } from '@/lib/files';
+import { formatChunkLocation, type RetrievalChunk } from '@/lib/retrieval';
+
+export const DEFAULT_CONTEXT_TOKENS = 4096;
+
+// Share of the context window kept free for the model's reply.
+const RESPONSE_RESERVE = 0.25;
+// Share of the prompt budget the summary of dropped turns may use.
+const SUMMARY_SHARE = 0.1;
+const SUMMARY_LINE_LENGTH = 120;
+
+// Rough heuristic: ~4 characters per token for English prose and code.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export const getPromptBudget = (contextTokens = DEFAULT_CONTEXT_TOKENS) =>
+  Math.floor(contextTokens * (1 - RESPONSE_RESERVE));
+
+const messageTokens = (message: OllamaChatMessage) => estimateTokens(message.content) + 4;
+
+export interface ContextWindow {
+  messages: OllamaChatMessage[];
+  droppedCount: number;
+}
+
+const summarizeDropped = (dropped: OllamaChatMessage[], budget: number): string => {
+  const header = 'Earlier turns were removed to fit the context window. The user had previously asked:';
+  const lines: string[] = [];
+  let used = estimateTokens(header);
+
+  // Newest dropped requests are the most relevant, so they claim budget first.
+  for (const message of [...dropped].reverse()) {
+    if (message.role !== 'user') continue;
+    const oneLine = message.content.replace(/\s+/g, ' ').trim();
+    const line = `- ${oneLine.length > SUMMARY_LINE_LENGTH ? oneLine.slice(0, SUMMARY_LINE_LENGTH) + '…' : oneLine}`;
+    const cost = estimateTokens(line);
+    if (used + cost > budget) break;
+    lines.unshift(line);
+    used += cost;
+  }
+
+  return lines.length > 0 ? `${header}\n${lines.join('\n')}` : '';
+};
+
+/**
+ * Builds the message list for /api/chat, keeping the newest turns that fit the
+ * context window. Older turns are dropped and replaced by a short summary of
+ * the user's earlier requests appended to the system prompt.
+ */
+export function buildContextWindow(
+  systemPrompt: string,
+  history: OllamaChatMessage[],
+  contextTokens = DEFAULT_CONTEXT_TOKENS
+): ContextWindow {
+  const promptBudget = getPromptBudget(contextTokens);
+  const summaryBudget = Math.floor(promptBudget * SUMMARY_SHARE);
+  let remaining = promptBudget - estimateTokens(systemPrompt) - summaryBudget;
+
+  let firstKept = history.length;
+  while (firstKept > 0) {
+    const cost = messageTokens(history[firstKept - 1]);
+    // The latest message is always sent, even if it alone exceeds the budget.
+    if (cost > remaining && firstKept < history.length) break;
+    remaining -= cost;
+    firstKept--;
+  }
+
+  // Never open the conversation with a dangling assistant reply or tool result.
+  while (firstKept < history.length - 1 && (history[firstKept].role === 'assistant' || history[firstKept].role === 'tool')) {
+    firstKept++;
+  }
+
+  const dropped = history.slice(0, firstKept);
+  const summary = dropped.length > 0 ? summarizeDropped(dropped, summaryBudget) : '';
+  const system = summary ? `${systemPrompt}\n\n${summary}` : systemPrompt;
+
+  return {
+    messages: [{ role: 'system', content: system }, ...history.slice(firstKept)],
+    droppedCount: dropped.length
+  };
+}
+
+export type ContextAttachmentKind = 'file' | 'selection' | 'project' | 'retrieval';
+
+export interface ContextAttachment {
+  kind: ContextAttachmentKind;
+  label: string;
+  content: string;
+  tokens: number;
+}
+
+// Use a fence longer than any backtick run inside the code so it can't close early.
+const fenceCode = (code: string, language: string) => {
+  const longestRun = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${language}\n${code}\n${fence}`;
+};
+
+const createAttachment = (kind: ContextAttachmentKind, label: string, content: string): ContextAttachment => ({
+  kind,
+  label,
+  content,
+  tokens: estimateTokens(content)
+});
+
+export const createFileAttachment = (file: ProjectFile): ContextAttachment =>
+  createAttachment(
+    'file',
+    file.path,
+    `Current file: ${file.path} (${file.language})\n${fenceCode(file.content, file.language)}`
+  );
+
+export const createSelectionAttachment = (text: string, file?: ProjectFile): ContextAttachment => {
+  const language = file?.language || '';
+  const source = file ? ` from ${file.path} (${language})` : '';
+  return createAttachment('selection', 'Selection', `Selected code${source}:\n${fenceCode(text, language)}`);
+};
+
+export const createProjectAttachment = (files: ProjectFile[]): ContextAttachment =>
+  createAttachment(
+    'project',
+    `${files.length} project files`,
+    files.map(file => `File: ${file.path} (${file.language})\n${fenceCode(file.content, file.language)}`).join('\n\n')
+  );
+
+// Snippets are numbered so the reply can cite them as [1], [2], ...
+export const createRetrievalAttachment = (chunks: RetrievalChunk[]): ContextAttachment =>
+  createAttachment(
+    'retrieval',
+    `${chunks.length} relevant snippet${chunks.length === 1 ? '' : 's'}`,
+    [
+      'Project code that may be relevant. Cite a snippet as [n] when you use it.',
+      ...chunks.map((chunk, i) =>
+        `[${i + 1}] ${formatChunkLocation(chunk)} (${chunk.language})\n${fenceCode(chunk.text, chunk.language)}`
+      )
+    ].join('\n\n')
+  );
+
+// Attachments go ahead of the question so the model reads the code first.
+export const withAttachments = (content: string, attachments: ContextAttachment[] = []) =>
+  attachments.length === 0
+    ? content
+    : `${attachments.map(attachment => attachment.content).join('\n\n')}\n\n${content}`;
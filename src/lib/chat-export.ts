@@ -0,0 +1,239 @@
+import { format } from 'date-fns';
+import { z } from 'zod';
+import { describeToolCall } from '@/lib/agent';
+import { getActiveBranch } from '@/lib/chat-branches';
+import type { ChatMessage, ChatThread } from '@/lib/chat-store';
+import { generationSettingsSchema, type GenerationSettings } from '@/lib/generation-settings';
+import { formatDuration } from '@/lib/metrics';
+import { formatChunkLocation } from '@/lib/retrieval';
+
+const EXPORT_FORMAT = 'code-scribe-weaver-chat';
+const EXPORT_VERSION = 1;
+
+const formatTime = (date: Date) => format(date, 'yyyy-MM-dd HH:mm');
+
+// Safe on every OS and still recognisable next to the chat's title
+export const exportFileName = (thread: ChatThread, extension: string) => {
+  const slug = thread.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50);
+  return `${slug || 'chat'}.${extension}`;
+};
+
+const describeParameters = ({ options }: GenerationSettings) =>
+  [
+    `temperature ${options.temperature}`,
+    `top_p ${options.top_p}`,
+    `top_k ${options.top_k}`,
+    `num_ctx ${options.num_ctx}`,
+    `num_predict ${options.num_predict}`,
+    `repeat_penalty ${options.repeat_penalty}`,
+    ...(options.seed !== undefined ? [`seed ${options.seed}`] : []),
+    ...(options.stop.length > 0 ? [`stop ${options.stop.map(stop => JSON.stringify(stop)).join(', ')}`] : [])
+  ].join(' · ');
+
+const messageDetails = (message: ChatMessage) => {
+  const details = [formatTime(message.timestamp)];
+  if (message.metrics) {
+    details.push(
+      `${message.metrics.tokensPerSecond.toFixed(1)} tok/s`,
+      `${message.metrics.promptTokens} prompt / ${message.metrics.outputTokens} output tokens`,
+      formatDuration(message.metrics.totalMs)
+    );
+  }
+  if (message.status === 'interrupted') details.push('stopped by user');
+  if (message.status === 'error') details.push('incomplete');
+  return `_${details.join(' · ')}_`;
+};
+
+const messageToMarkdown = (message: ChatMessage, model: string) => {
+  const heading = message.role === 'user' ? '## You' : `## AI (${message.metrics?.model ?? model})`;
+  const parts = [heading, messageDetails(message)];
+
+  if (message.attachments) {
+    parts.push(`Context: ${message.attachments.map(attachment => attachment.label).join(', ')}`);
+  }
+  if (message.images) {
+    parts.push(`Images: ${message.images.map(image => `${image.name} (${image.width}×${image.height})`).join(', ')}`);
+  }
+  if (message.content.trim()) parts.push(message.content.trim());
+  if (message.toolCalls) {
+    parts.push(message.toolCalls.map(call => `- Tool: ${describeToolCall(call)} (${call.status})`).join('\n'));
+  }
+  if (message.jsonOutput && message.status !== 'streaming') {
+    const { errors } = message.jsonOutput;
+    parts.push(errors.length === 0 ? 'JSON output: matches the schema' : `JSON output: ${errors.length} schema error(s)`);
+  }
+  if (message.citations) {
+    parts.push(`Sources: ${message.citations.map((citation, index) => `[${index + 1}] \`${formatChunkLocation(citation)}\``).join(', ')}`);
+  }
+  if (message.agentRun) {
+    const changed = message.agentRun.changedFiles.map(path => `\`${path}\``).join(', ') || 'none';
+    parts.push(`Agent run: ${message.agentRun.steps} steps, ${message.agentRun.outcome}. Files changed: ${changed}`);
+  }
+  return parts.join('\n\n');
+};
+
+/**
+ * The conversation as shown, for pasting into PRs and docs. Code blocks are
+ * kept as written; other branches are left out.
+ */
+export const threadToMarkdown = (thread: ChatThread, generation: GenerationSettings): string => {
+  const header = [
+    `# ${thread.title}`,
+    [
+      `- **Model:** ${thread.model || 'none'}`,
+      `- **Parameters:** ${describeParameters(generation)}`,
+      `- **Started:** ${formatTime(thread.createdAt)}`,
+      `- **Exported:** ${formatTime(new Date())}`
+    ].join('\n'),
+    `**System prompt:**\n\n${generation.systemPrompt.split('\n').map(line => `> ${line}`).join('\n')}`
+  ];
+  const messages = getActiveBranch(thread.messages, thread.activeLeafId)
+    .filter(message => message.content.trim() || message.images || message.toolCalls)
+    .map(message => messageToMarkdown(message, thread.model));
+
+  return `${[header.join('\n\n'), ...messages].join('\n\n---\n\n')}\n`;
+};
+
+// Everything in the thread, every branch included; dates become ISO strings
+export const threadToJson = (thread: ChatThread) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, thread }, null, 2);
+
+// Extras that don't parse are dropped rather than failing the import, so the messages themselves survive
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.optional().catch(undefined);
+
+const metricsSchema = z.object({
+  model: z.string(),
+  promptTokens: z.number(),
+  outputTokens: z.number(),
+  tokensPerSecond: z.number(),
+  firstTokenMs: z.number().optional(),
+  totalMs: z.number(),
+  loadMs: z.number()
+});
+
+const attachmentSchema = z.object({
+  kind: z.enum(['file', 'selection', 'project', 'retrieval']),
+  label: z.string(),
+  content: z.string(),
+  tokens: z.number()
+});
+
+const imageSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mimeType: z.enum(['image/png', 'image/jpeg']),
+  data: z.string(),
+  width: z.number(),
+  height: z.number()
+});
+
+const citationSchema = z.object({
+  fileId: z.string(),
+  path: z.string(),
+  startLine: z.number().int(),
+  endLine: z.number().int()
+});
+
+const jsonOutputSchema = z.object({
+  schema: z.record(z.unknown()),
+  errors: z.array(z.object({ path: z.string(), message: z.string() }))
+});
+
+const toolCallSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.record(z.unknown()),
+  status: z.enum(['pending', 'running', 'done', 'denied', 'error']),
+  result: z.string().optional()
+});
+
+const agentRunSchema = z.object({
+  steps: z.number().int(),
+  changedFiles: z.array(z.string()),
+  outcome: z.enum(['done', 'step-limit', 'stopped', 'error'])
+});
+
+const importedMessageSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  timestamp: z.coerce.date(),
+  // A reply exported mid-stream will never finish, as after a reload
+  status: optional(z.enum(['streaming', 'complete', 'interrupted', 'error'])
+    .transform(status => (status === 'streaming' ? 'interrupted' : status))),
+  parentId: z.string().nullable().optional(),
+  attachments: optional(z.array(attachmentSchema)),
+  images: optional(z.array(imageSchema)),
+  metrics: optional(metricsSchema),
+  citations: optional(z.array(citationSchema)),
+  jsonOutput: optional(jsonOutputSchema),
+  toolCalls: optional(z.array(toolCallSchema)),
+  agentRun: optional(agentRunSchema)
+});
+
+const importedThreadSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  model: z.string().catch(''),
+  // Unreadable settings are dropped so the model's preset applies, as for a thread never edited
+  generation: optional(generationSettingsSchema),
+  messages: z.array(importedMessageSchema).refine(
+    messages => new Set(messages.map(message => message.id)).size === messages.length,
+    'Message ids must be unique'
+  ),
+  activeLeafId: optional(z.string()),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date()
+});
+
+// Accepts what threadToJson writes; throws with a readable message otherwise
+export const parseThreadJson = (json: string): ChatThread => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const envelope = data as { format?: unknown; version?: unknown; thread?: unknown } | null;
+  if (envelope?.format !== EXPORT_FORMAT) throw new Error('The file is not an exported chat');
+  if (typeof envelope.version !== 'number' || envelope.version > EXPORT_VERSION) {
+    throw new Error('The chat was exported by a newer version of the app');
+  }
+
+  const result = importedThreadSchema.safeParse(envelope.thread);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid chat at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+
+  // Links to messages that aren't in the file would hide parts of the chat, so they're cut
+  const thread = result.data as ChatThread;
+  const ids = new Set(thread.messages.map(message => message.id));
+  const messages = thread.messages.map(message =>
+    message.parentId && (!ids.has(message.parentId) || message.parentId === message.id)
+      ? { ...message, parentId: null }
+      : message
+  );
+  const activeLeafId = thread.activeLeafId && ids.has(thread.activeLeafId)
+    ? thread.activeLeafId
+    : messages[messages.length - 1]?.id;
+  return { ...thread, messages, activeLeafId };
+};
+
+// A copy that can sit next to the thread it came from: new thread and message ids, branches kept
+export const withNewIds = (thread: ChatThread, id: string): ChatThread => {
+  const stamp = Date.now();
+  const newIds = new Map(thread.messages.map((message, index) => [message.id, `${stamp}-${index}`]));
+  const remap = (messageId: string) => newIds.get(messageId) ?? messageId;
+  return {
+    ...thread,
+    id,
+    messages: thread.messages.map(message => ({
+      ...message,
+      id: remap(message.id),
+      ...(message.parentId ? { parentId: remap(message.parentId) } : {})
+    })),
+    activeLeafId: thread.activeLeafId && remap(thread.activeLeafId)
+  };
+};
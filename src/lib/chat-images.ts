@@ -0,0 +1,74 @@
+import type { ProviderChatMessage } from '@/lib/provider';
+
+// An image sent with a prompt; `data` is base64 without the "data:" prefix, as Ollama expects it
+export interface ChatImage {
+  id: string;
+  name: string;
+  mimeType: 'image/png' | 'image/jpeg';
+  data: string;
+  width: number;
+  height: number;
+}
+
+export const MAX_CHAT_IMAGES = 4;
+
+// Vision models scale images down to well under this anyway, and the data is stored with the chat
+const MAX_IMAGE_SIDE = 1600;
+
+export const imageDataUrl = (image: ChatImage) => `data:${image.mimeType};base64,${image.data}`;
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The image could not be read'));
+    image.src = src;
+  });
+
+// Screenshots stay PNG so text remains sharp; photos and everything else become JPEG
+export const canvasToChatImage = (
+  canvas: HTMLCanvasElement,
+  name: string,
+  mimeType: ChatImage['mimeType'] = 'image/png'
+): ChatImage => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  mimeType,
+  data: canvas.toDataURL(mimeType, 0.9).split(',')[1],
+  width: canvas.width,
+  height: canvas.height
+});
+
+/**
+ * Reads a pasted, dropped or picked file. Every image is redrawn, which
+ * scales large ones down and turns formats some models reject (WebP, GIF,
+ * SVG) into PNG or JPEG.
+ */
+export const readImageFile = async (file: File): Promise<ChatImage> => {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image`);
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvasToChatImage(canvas, file.name || 'pasted image', file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Images among pasted or dropped items; other files are ignored
+export const imageFilesFrom = (data: DataTransfer | null): File[] =>
+  Array.from(data?.files ?? []).filter(file => file.type.startsWith('image/'));
+
+// For models that can't read images: earlier images become a note, so the history still makes sense
+export const omitImages = (messages: ProviderChatMessage[]): ProviderChatMessage[] =>
+  messages.map(({ images, ...message }) =>
+    images && images.length > 0
+      ? { ...message, content: `${message.content}\n\n[${images.length} image${images.length === 1 ? '' : 's'} omitted]`.trim() }
+      : message
+  );
@@ -0,0 +1,120 @@
+import type { AgentRunSummary, AgentToolCall } from '@/lib/agent';
+import type { ContextAttachment } from '@/lib/chat-context';
+import type { ChatImage } from '@/lib/chat-images';
+import type { GenerationSettings } from '@/lib/generation-settings';
+import type { JsonOutputCheck } from '@/lib/json-schema';
+import type { GenerationMetrics } from '@/lib/metrics';
+import type { RetrievalCitation } from '@/lib/retrieval';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  status?: 'streaming' | 'complete' | 'interrupted' | 'error';
+  // Message this one answers or follows; siblings with the same parent are alternative branches
+  parentId?: string | null;
+  attachments?: ContextAttachment[];
+  // User messages sent to a vision model
+  images?: ChatImage[];
+  // Assistant replies that finished normally
+  metrics?: GenerationMetrics;
+  // Snippets retrieved for the question, in the order the reply cites them as [n]
+  citations?: RetrievalCitation[];
+  // JSON mode replies, with the schema they were asked for and how they measured up
+  jsonOutput?: JsonOutputCheck;
+  // Agent mode: tools this reply asked for, and the outcome on the run's last reply
+  toolCalls?: AgentToolCall[];
+  agentRun?: AgentRunSummary;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  model: string;
+  // Set once the thread's settings are edited; until then the model preset applies
+  generation?: GenerationSettings;
+  // Every message of every branch, in the order they were created
+  messages: ChatMessage[];
+  // Last message of the branch being shown; unset shows the newest
+  activeLeafId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_THREAD_TITLE = 'New chat';
+
+const DB_NAME = 'code-scribe-weaver';
+const DB_VERSION = 1;
+const THREAD_STORE = 'threads';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(THREAD_STORE)) {
+          db.createObjectStore(THREAD_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+// Resolves once the transaction commits, not just when the request succeeds
+const runInStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(THREAD_STORE, mode);
+    const request = operation(transaction.objectStore(THREAD_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const loadThreads = async (): Promise<ChatThread[]> => {
+  const threads = await runInStore<ChatThread[]>('readonly', store => store.getAll());
+  return threads
+    .map(thread => ({
+      ...thread,
+      // A reload mid-stream leaves replies that will never finish
+      messages: thread.messages.map(message =>
+        message.status === 'streaming' ? { ...message, status: 'interrupted' as const } : message
+      )
+    }))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const saveThread = (thread: ChatThread) => runInStore('readwrite', store => store.put(thread));
+
+export const deleteThread = (id: string) => runInStore('readwrite', store => store.delete(id));
+
+export const createThread = (model: string): ChatThread => {
+  const now = new Date();
+  return {
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    title: DEFAULT_THREAD_TITLE,
+    model,
+    messages: [],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const titleFromPrompt = (prompt: string) => {
+  const oneLine = prompt.replace(/\s+/g, ' ').trim();
+  return oneLine.length > 40 ? `${oneLine.slice(0, 40)}…` : oneLine || DEFAULT_THREAD_TITLE;
+};
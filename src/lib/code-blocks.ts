@@ -0,0 +1,106 @@
+export interface CodeBlock {
+  language: string;
+  code: string;
+  // Target file, when the fence or first line names one
+  path?: string;
+  // False while a streaming reply hasn't closed the fence yet
+  closed: boolean;
+}
+
+export type MessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'code'; block: CodeBlock };
+
+export type CodeApplyAction = 'replace-file' | 'insert-at-cursor' | 'replace-selection' | 'create-file';
+
+const FENCE_OPEN = /^(\s*)(`{3,}|~{3,})\s*([^`]*)$/;
+const PATH_ATTRIBUTE = /^(?:path|file|filename)=["']?([^"'\s]+)["']?$/i;
+const FIRST_LINE_PATH = /^\s*(?:\/\/|#|\/\*|<!--)\s*(?:file|path|filename):\s*(\S+?)\s*(?:\*\/|-->)?\s*$/i;
+const looksLikePath = (token: string) => /^[\w./-]+\.\w+$/.test(token);
+
+// Accepts "js", "js path=src/a.js", "js:src/a.js" and "src/a.js"
+const parseInfoString = (info: string): { language: string; path?: string } => {
+  const tokens = info.trim().split(/\s+/).filter(Boolean);
+  let language = '';
+  let path: string | undefined;
+
+  tokens.forEach((token, index) => {
+    const attribute = token.match(PATH_ATTRIBUTE);
+    if (attribute) {
+      path = attribute[1];
+    } else if (index === 0 && token.includes(':')) {
+      const [lang, target] = token.split(':', 2);
+      language = lang;
+      if (looksLikePath(target)) path = target;
+    } else if (index === 0 && looksLikePath(token)) {
+      path = token;
+      language = token.split('.').pop() || '';
+    } else if (index === 0) {
+      language = token;
+    } else if (!path && looksLikePath(token)) {
+      path = token;
+    }
+  });
+
+  return { language: language.toLowerCase(), path: path?.replace(/^\.\//, '') };
+};
+
+// Builds a block from a fence info string, falling back to a "file:" comment on the first line for the path.
+export const createCodeBlock = (info: string, code: string, closed: boolean): CodeBlock => {
+  const { language, path } = parseInfoString(info);
+  const pathComment = !path ? code.split('\n', 1)[0].match(FIRST_LINE_PATH) : null;
+  return {
+    language,
+    code,
+    closed,
+    path: path ?? pathComment?.[1].replace(/^\.\//, '')
+  };
+};
+
+/**
+ * Splits a markdown reply into prose and fenced code blocks. A fence is closed
+ * by a line of the same character at least as long as the opener.
+ */
+export function splitMessageContent(content: string): MessagePart[] {
+  const parts: MessagePart[] = [];
+  const lines = content.split('\n');
+  let text: string[] = [];
+
+  const flushText = () => {
+    if (text.length > 0 && text.join('\n').trim()) {
+      parts.push({ type: 'text', text: text.join('\n') });
+    }
+    text = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(FENCE_OPEN);
+    if (!open) {
+      text.push(lines[i]);
+      continue;
+    }
+
+    const fence = open[2];
+    const closing = new RegExp(`^\\s*${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`);
+    const code: string[] = [];
+    let closed = false;
+    for (i++; i < lines.length; i++) {
+      if (closing.test(lines[i])) {
+        closed = true;
+        break;
+      }
+      code.push(lines[i]);
+    }
+
+    flushText();
+    parts.push({ type: 'code', block: createCodeBlock(open[3], code.join('\n'), closed) });
+  }
+
+  flushText();
+  return parts;
+}
+
+export const extractCodeBlocks = (content: string): CodeBlock[] =>
+  splitMessageContent(content)
+    .filter((part): part is { type: 'code'; block: CodeBlock } => part.type === 'code')
+    .map(part => part.block);
@@ -0,0 +1,132 @@
+export interface EqualSegment {
+  type: 'equal';
+  lines: string[];
+}
+
+export interface HunkSegment {
+  type: 'hunk';
+  id: number;
+  oldStart: number;
+  newStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+export type DiffSegment = EqualSegment | HunkSegment;
+
+const splitLines = (text: string) => (text === '' ? [] : text.split('\n'));
+
+// Longest-common-subsequence table over the lines between the shared prefix and suffix.
+const lcsOps = (a: string[], b: string[]): ('equal' | 'delete' | 'insert')[] => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const ops: ('equal' | 'delete' | 'insert')[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push('equal');
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      ops.push('delete');
+      i++;
+    } else {
+      ops.push('insert');
+      j++;
+    }
+  }
+  while (i++ < a.length) ops.push('delete');
+  while (j++ < b.length) ops.push('insert');
+  return ops;
+};
+
+/**
+ * Line diff between two texts, grouped into unchanged runs and hunks of
+ * consecutive changes. Hunk ids are stable indexes used by applyHunks.
+ */
+export function diffLines(oldText: string, newText: string): DiffSegment[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops = lcsOps(
+    oldLines.slice(prefix, oldLines.length - suffix),
+    newLines.slice(prefix, newLines.length - suffix)
+  );
+
+  const segments: DiffSegment[] = [];
+  if (prefix > 0) segments.push({ type: 'equal', lines: oldLines.slice(0, prefix) });
+
+  let oldIndex = prefix;
+  let newIndex = prefix;
+  let hunkId = 0;
+  for (let k = 0; k < ops.length;) {
+    if (ops[k] === 'equal') {
+      const lines: string[] = [];
+      while (k < ops.length && ops[k] === 'equal') {
+        lines.push(oldLines[oldIndex]);
+        oldIndex++;
+        newIndex++;
+        k++;
+      }
+      segments.push({ type: 'equal', lines });
+    } else {
+      const hunk: HunkSegment = {
+        type: 'hunk',
+        id: hunkId++,
+        oldStart: oldIndex,
+        newStart: newIndex,
+        oldLines: [],
+        newLines: []
+      };
+      while (k < ops.length && ops[k] !== 'equal') {
+        if (ops[k] === 'delete') {
+          hunk.oldLines.push(oldLines[oldIndex++]);
+        } else {
+          hunk.newLines.push(newLines[newIndex++]);
+        }
+        k++;
+      }
+      segments.push(hunk);
+    }
+  }
+
+  if (suffix > 0) segments.push({ type: 'equal', lines: oldLines.slice(oldLines.length - suffix) });
+  return segments;
+}
+
+export const getHunks = (segments: DiffSegment[]): HunkSegment[] =>
+  segments.filter((segment): segment is HunkSegment => segment.type === 'hunk');
+
+// Rebuilds the text keeping the new side of accepted hunks and the old side of the rest.
+export function applyHunks(segments: DiffSegment[], acceptedIds: Set<number>): string {
+  return segments
+    .flatMap(segment => {
+      if (segment.type === 'equal') return segment.lines;
+      return acceptedIds.has(segment.id) ? segment.newLines : segment.oldLines;
+    })
+    .join('\n');
+}
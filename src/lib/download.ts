@@ -0,0 +1,9 @@
+// Saves generated text through a temporary link, since there is no backend to serve it
+export const downloadTextFile = (fileName: string, content: string, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,165 @@
+export interface FileNode {
+  id: string;
+  name: string;
+  type: 'file' | 'folder';
+  children?: FileNode[];
+  content?: string;
+}
+
+export interface ProjectFile {
+  id: string;
+  path: string;
+  name: string;
+  language: string;
+  content: string;
+}
+
+export const initialFiles: FileNode[] = [
+  {
+    id: '1',
+    name: 'src',
+    type: 'folder',
+    children: [
+      {
+        id: '2',
+        name: 'index.html',
+        type: 'file',
+        content: '<!DOCTYPE html>\n<html>\n<head>\n  <title>My App</title>\n</head>\n<body>\n  <h1>Hello World</h1>\n</body>\n</html>'
+      },
+      {
+        id: '3',
+        name: 'style.css',
+        type: 'file',
+        content: 'body {\n  font-family: Arial, sans-serif;\n  margin: 0;\n  padding: 20px;\n}'
+      },
+      {
+        id: '4',
+        name: 'script.js',
+        type: 'file',
+        content: 'console.log("Hello from JavaScript!");\n\n// Your code here'
+      }
+    ]
+  }
+];
+
+export const getLanguageFromFile = (fileName: string): string => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'css':
+      return 'css';
+    case 'js':
+      return 'javascript';
+    case 'ts':
+    case 'tsx':
+      return 'typescript';
+    default:
+      return 'javascript';
+  }
+};
+
+export const getExtensionForLanguage = (language: string): string => {
+  switch (language.toLowerCase()) {
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'css':
+      return 'css';
+    case 'ts':
+    case 'typescript':
+      return 'ts';
+    case 'json':
+      return 'json';
+    default:
+      return 'js';
+  }
+};
+
+export const getProjectFiles = (nodes: FileNode[], parentPath = ''): ProjectFile[] =>
+  nodes.flatMap(node => {
+    const path = parentPath ? `${parentPath}/${node.name}` : node.name;
+    if (node.type === 'folder') return getProjectFiles(node.children || [], path);
+    return [{
+      id: node.id,
+      path,
+      name: node.name,
+      language: getLanguageFromFile(node.name),
+      content: node.content || ''
+    }];
+  });
+
+export const findFileNode = (nodes: FileNode[], id: string): FileNode | undefined => {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = node.children && findFileNode(node.children, id);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+export const updateFileContent = (nodes: FileNode[], id: string, content: string): FileNode[] =>
+  nodes.map(node => {
+    if (node.id === id) return { ...node, content };
+    if (node.children) return { ...node, children: updateFileContent(node.children, id, content) };
+    return node;
+  });
+
+// Character offsets spanning 1-based lines startLine..endLine, clamped to the content
+export const getLineRangeOffsets = (content: string, startLine: number, endLine: number) => {
+  const lines = content.split('\n');
+  const first = Math.min(Math.max(startLine, 1), lines.length) - 1;
+  const last = Math.min(Math.max(endLine, startLine), lines.length) - 1;
+  const start = lines.slice(0, first).reduce((total, line) => total + line.length + 1, 0);
+  const end = lines.slice(first, last + 1).reduce((total, line) => total + line.length + 1, start) - 1;
+  return { start, end };
+};
+
+let nodeCounter = 0;
+
+// Several nodes can be created in the same millisecond when a changeset is applied
+export const createNodeId = () => `${Date.now()}-${nodeCounter++}`;
+
+// New files land in the first top-level folder, matching the explorer's "+" button
+export const addFileToRoot = (nodes: FileNode[], file: FileNode): FileNode[] => {
+  const rootIndex = nodes.findIndex(node => node.type === 'folder');
+  if (rootIndex === -1) return [...nodes, file];
+  return nodes.map((node, index) =>
+    index === rootIndex ? { ...node, children: [...(node.children || []), file] } : node
+  );
+};
+
+// Places a file at a slash-separated path, creating missing folders on the way.
+// A bare file name goes to the first top-level folder like the explorer's "+" button.
+export const addFileAtPath = (nodes: FileNode[], path: string, file: FileNode): FileNode[] => {
+  const segments = path.split('/').filter(Boolean);
+  if (segments.length <= 1) return addFileToRoot(nodes, { ...file, name: segments[0] || file.name });
+
+  const insert = (level: FileNode[], remaining: string[]): FileNode[] => {
+    if (remaining.length === 1) return [...level, { ...file, name: remaining[0] }];
+
+    const [folderName, ...rest] = remaining;
+    const folder = level.find(node => node.type === 'folder' && node.name === folderName);
+    if (folder) {
+      return level.map(node =>
+        node === folder ? { ...node, children: insert(node.children || [], rest) } : node
+      );
+    }
+    return [
+      ...level,
+      { id: createNodeId(), name: folderName, type: 'folder', children: insert([], rest) }
+    ];
+  };
+
+  return insert(nodes, segments);
+};
+
+// Where a file given by path lives, or where addFileAtPath would create it
+export const resolveFilePath = (nodes: FileNode[], path: string): string => {
+  const normalized = path.trim().replace(/^\.?\/+/, '');
+  if (!normalized || normalized.includes('/')) return normalized;
+  const existing = getProjectFiles(nodes).find(file => file.path === normalized);
+  const root = nodes.find(node => node.type === 'folder');
+  return existing || !root ? normalized : `${root.name}/${normalized}`;
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { DEFAULT_CONTEXT_TOKENS } from '@/lib/chat-context';
+
+export const DEFAULT_SYSTEM_PROMPT = `You are a helpful coding assistant. When providing code examples, wrap them in markdown code blocks with the appropriate language specified. Be concise and practical.
+
+When a change spans several project files, give the complete new content of each file in its own code block and put the file path after the language, for example \`\`\`css path=src/style.css`;
+
+export const generationOptionsSchema = z.object({
+  temperature: z.number().min(0).max(2),
+  top_p: z.number().min(0).max(1),
+  top_k: z.number().int().min(0),
+  num_ctx: z.number().int().min(256),
+  // -1 lets the model generate until it stops on its own
+  num_predict: z.number().int().min(-2),
+  repeat_penalty: z.number().min(0),
+  // Absent means Ollama picks a random seed per request
+  seed: z.number().int().optional(),
+  stop: z.array(z.string())
+});
+
+export const generationSettingsSchema = z.object({
+  options: generationOptionsSchema,
+  systemPrompt: z.string()
+});
+
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>;
+export type GenerationSettings = z.infer<typeof generationSettingsSchema>;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  options: {
+    temperature: 0.7,
+    top_p: 0.9,
+    top_k: 40,
+    num_ctx: DEFAULT_CONTEXT_TOKENS,
+    num_predict: -1,
+    repeat_penalty: 1.1,
+    stop: []
+  },
+  systemPrompt: DEFAULT_SYSTEM_PROMPT
+};
+
+// Shape sent as `options` to Ollama; unset values are left to the model's Modelfile
+export const toOllamaOptions = ({ seed, stop, ...rest }: GenerationOptions) => ({
+  ...rest,
+  ...(seed !== undefined ? { seed } : {}),
+  ...(stop.length > 0 ? { stop } : {})
+});
@@ -0,0 +1,170 @@
+import { extractCodeBlocks } from '@/lib/code-blocks';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface JsonSchemaError {
+  // JSONPath-style location, "$" for the whole document
+  path: string;
+  message: string;
+}
+
+// Outcome of checking a structured reply; no errors means it matched
+export interface JsonOutputCheck {
+  schema: JsonSchema;
+  errors: JsonSchemaError[];
+}
+
+export const DEFAULT_JSON_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "items": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "id": { "type": "integer" },
+          "name": { "type": "string" }
+        },
+        "required": ["id", "name"]
+      }
+    }
+  },
+  "required": ["items"]
+}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Throws with a readable message when the text isn't a usable schema
+export const parseJsonSchema = (text: string): JsonSchema => {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Schema is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isObject(schema)) throw new Error('Schema must be a JSON object');
+  return schema;
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+/**
+ * Checks `value` against the parts of JSON Schema that generated data
+ * usually relies on: type, enum, const, object properties, array items,
+ * string and number bounds, and allOf/anyOf/oneOf. Other keywords, $ref
+ * included, are ignored.
+ */
+export const validateJson = (value: unknown, schema: JsonSchema, path = '$'): JsonSchemaError[] => {
+  const errors: JsonSchemaError[] = [];
+  const fail = (message: string, at = path) => errors.push({ path: at, message });
+
+  const types = typeof schema.type === 'string' ? [schema.type] : Array.isArray(schema.type) ? schema.type as string[] : [];
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    fail(`expected ${types.join(' or ')}, got ${typeOf(value)}`);
+    return errors;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    fail(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in value)) fail(`missing required property "${key}"`);
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (isObject(propertySchema)) {
+        errors.push(...validateJson(item, propertySchema, childPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        fail('property is not allowed by the schema', childPath(path, key));
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateJson(item, schema.additionalProperties, childPath(path, key)));
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} items`);
+    if (isObject(schema.items)) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => errors.push(...validateJson(item, itemSchema, childPath(path, index))));
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) fail(`must be at least ${schema.minLength} characters`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) fail(`must be at most ${schema.maxLength} characters`);
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) fail(`must match ${schema.pattern}`);
+      } catch {
+        // A pattern JavaScript can't compile can't be checked
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) fail(`must be > ${schema.exclusiveMinimum}`);
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) fail(`must be < ${schema.exclusiveMaximum}`);
+  }
+
+  const subschemas = (key: string) => (Array.isArray(schema[key]) ? (schema[key] as unknown[]).filter(isObject) : []);
+  for (const subschema of subschemas('allOf')) errors.push(...validateJson(value, subschema, path));
+  const anyOf = subschemas('anyOf');
+  if (anyOf.length > 0 && !anyOf.some(subschema => validateJson(value, subschema, path).length === 0)) {
+    fail('does not match any of the allowed shapes (anyOf)');
+  }
+  const oneOf = subschemas('oneOf');
+  if (oneOf.length > 0) {
+    const matches = oneOf.filter(subschema => validateJson(value, subschema, path).length === 0).length;
+    if (matches !== 1) fail(`must match exactly one of the allowed shapes (oneOf), matched ${matches}`);
+  }
+
+  return errors;
+};
+
+// Models in format mode reply with bare JSON; some still wrap it in a code fence
+export const parseJsonReply = (reply: string): unknown => {
+  const block = extractCodeBlocks(reply).find(candidate => candidate.closed);
+  return JSON.parse(block ? block.code : reply);
+};
+
+export const checkJsonReply = (reply: string, schema: JsonSchema): JsonOutputCheck => {
+  let value: unknown;
+  try {
+    value = parseJsonReply(reply);
+  } catch (error) {
+    return { schema, errors: [{ path: '$', message: `not valid JSON: ${(error as Error).message}` }] };
+  }
+  return { schema, errors: validateJson(value, schema) };
+};
+
+export const formatSchemaError = ({ path, message }: JsonSchemaError) => `${path}: ${message}`;
+
+export const buildJsonRetryPrompt = (errors: JsonSchemaError[]) =>
+  `Your JSON does not match the schema:\n${errors.map(error => `- ${formatSchemaError(error)}`).join('\n')}\n\n` +
+  'Reply again with the complete corrected JSON only.';
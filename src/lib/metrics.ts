@@ -0,0 +1,68 @@
+export interface GenerationMetrics {
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  tokensPerSecond: number;
+  // Wall-clock milliseconds from sending the request to the first streamed token
+  firstTokenMs?: number;
+  totalMs: number;
+  loadMs: number;
+}
+
+// What a provider reports about one reply; missing numbers are 0
+export interface GenerationUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalMs: number;
+  loadMs: number;
+  // Time spent producing output tokens
+  evalMs: number;
+}
+
+export const EMPTY_USAGE: GenerationUsage = { promptTokens: 0, outputTokens: 0, totalMs: 0, loadMs: 0, evalMs: 0 };
+
+export const toGenerationMetrics = (
+  model: string,
+  usage: GenerationUsage,
+  firstTokenMs?: number
+): GenerationMetrics => ({
+  model,
+  promptTokens: usage.promptTokens,
+  outputTokens: usage.outputTokens,
+  tokensPerSecond: usage.evalMs > 0 ? usage.outputTokens / (usage.evalMs / 1000) : 0,
+  firstTokenMs,
+  totalMs: usage.totalMs,
+  loadMs: usage.loadMs
+});
+
+export const formatDuration = (ms: number) => (ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+export interface ModelMetricsSummary {
+  model: string;
+  replies: number;
+  avgTokensPerSecond: number;
+  avgFirstTokenMs: number;
+  avgTotalMs: number;
+  outputTokens: number;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+
+export const summarizeByModel = (metrics: GenerationMetrics[]): ModelMetricsSummary[] => {
+  const byModel = new Map<string, GenerationMetrics[]>();
+  for (const entry of metrics) {
+    byModel.set(entry.model, [...(byModel.get(entry.model) ?? []), entry]);
+  }
+
+  return [...byModel.entries()]
+    .map(([model, entries]) => ({
+      model,
+      replies: entries.length,
+      avgTokensPerSecond: average(entries.map(entry => entry.tokensPerSecond)),
+      avgFirstTokenMs: average(entries.flatMap(entry => (entry.firstTokenMs !== undefined ? [entry.firstTokenMs] : []))),
+      avgTotalMs: average(entries.map(entry => entry.totalMs)),
+      outputTokens: entries.reduce((total, entry) => total + entry.outputTokens, 0)
+    }))
+    .sort((a, b) => b.avgTokensPerSecond - a.avgTokensPerSecond);
+};
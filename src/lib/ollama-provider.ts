@@ -0,0 +1,83 @@
+import { toOllamaOptions, DEFAULT_GENERATION_SETTINGS } from '@/lib/generation-settings';
+import type { GenerationUsage } from '@/lib/metrics';
+import {
+  chat,
+  embed,
+  generateCompletion,
+  listModels,
+  parseKeepAlive,
+  showModel,
+  streamChat,
+  type OllamaChatRequest,
+  type OllamaTimings
+} from '@/lib/ollama';
+import type { ChatRequest, ModelProvider } from '@/lib/provider';
+
+const NS_PER_MS = 1_000_000;
+
+// Image encoder families Ollama lists for llava, llama3.2-vision and the like
+const VISION_FAMILIES = ['clip', 'mllama'];
+
+const usageFromTimings = (timings: OllamaTimings): GenerationUsage => ({
+  promptTokens: timings.prompt_eval_count ?? 0,
+  outputTokens: timings.eval_count ?? 0,
+  totalMs: (timings.total_duration ?? 0) / NS_PER_MS,
+  loadMs: (timings.load_duration ?? 0) / NS_PER_MS,
+  evalMs: (timings.eval_duration ?? 0) / NS_PER_MS
+});
+
+const toOllamaRequest = ({ model, messages, options, keepAlive, tools, format }: ChatRequest): OllamaChatRequest => ({
+  model,
+  messages,
+  ...(tools ? { tools } : {}),
+  ...(format ? { format } : {}),
+  options: toOllamaOptions({ ...DEFAULT_GENERATION_SETTINGS.options, ...options }),
+  ...(keepAlive ? { keep_alive: parseKeepAlive(keepAlive) } : {})
+});
+
+export const createOllamaProvider = (baseUrl: string): ModelProvider => ({
+  kind: 'ollama',
+
+  listModels: () => listModels(baseUrl),
+
+  chat: async (request) => {
+    const done = await chat(baseUrl, toOllamaRequest(request), request.signal);
+    return {
+      text: done.message?.content ?? '',
+      usage: usageFromTimings(done),
+      toolCalls: done.message?.tool_calls
+    };
+  },
+
+  stream: async (request, onToken) => {
+    const { text, done } = await streamChat(baseUrl, toOllamaRequest(request), onToken, request.signal);
+    return { text, usage: usageFromTimings(done) };
+  },
+
+  complete: ({ model, prompt, suffix, maxTokens, keepAlive, signal }) =>
+    generateCompletion(baseUrl, {
+      model,
+      prompt,
+      suffix,
+      options: { temperature: 0.2, num_predict: maxTokens },
+      ...(keepAlive ? { keep_alive: parseKeepAlive(keepAlive) } : {})
+    }, signal),
+
+  embed: (model, input, signal) => embed(baseUrl, model, input, signal),
+
+  detectCapabilities: async (model) => {
+    const info = await showModel(baseUrl, model);
+    // Older servers don't report capabilities; assume the model can do anything but read images,
+    // which only models with an image encoder can
+    const capabilities = info.capabilities;
+    return {
+      completion: capabilities ? capabilities.includes('insert') : true,
+      embeddings: capabilities ? capabilities.includes('embedding') : true,
+      tools: capabilities ? capabilities.includes('tools') : true,
+      vision: capabilities
+        ? capabilities.includes('vision')
+        : (info.details?.families ?? []).some(family => VISION_FAMILIES.includes(family)),
+      modelManagement: true
+    };
+  }
+});
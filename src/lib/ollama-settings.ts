@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { generationSettingsSchema } from '@/lib/generation-settings';
+import { DEFAULT_JSON_SCHEMA } from '@/lib/json-schema';
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+// llama.cpp server's default; LM Studio uses :1234 and vLLM :8000
+export const DEFAULT_OPENAI_URL = 'http://localhost:8080/v1';
+
+export const DEFAULT_KEEP_ALIVE = '5m';
+
+export const KEEP_ALIVE_OPTIONS = [
+  { value: '5m', label: '5 minutes (Ollama default)' },
+  { value: '30m', label: '30 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: '24h', label: '24 hours' },
+  { value: '-1', label: 'Keep loaded (pin)' },
+  { value: '0', label: 'Unload after each reply' }
+];
+
+const STORAGE_KEY = 'ollama-settings';
+
+export const ollamaUrlSchema = z
+  .string()
+  .trim()
+  .url('Enter a full URL, e.g. http://localhost:11434')
+  .refine(url => /^https?:\/\//i.test(url), 'Only http:// and https:// URLs are supported')
+  // Endpoints are appended as `${url}/api/...`
+  .transform(url => url.replace(/\/+$/, ''));
+
+const declaredFeaturesSchema = z.object({
+  completion: z.boolean(),
+  embeddings: z.boolean(),
+  tools: z.boolean(),
+  vision: z.boolean()
+});
+
+// Nothing is assumed; the user turns on what their server supports
+const DEFAULT_DECLARED_FEATURES: DeclaredFeatures = {
+  completion: false,
+  embeddings: false,
+  tools: false,
+  vision: false
+};
+
+const profileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).catch('Untitled'),
+  // Profiles saved before other backends were supported are Ollama
+  provider: z.enum(['ollama', 'openai']).default('ollama'),
+  url: ollamaUrlSchema,
+  // Sent as a Bearer token to OpenAI-compatible servers that require one
+  apiKey: z.string().default(''),
+  model: z.string().default(''),
+  // How long Ollama keeps the model loaded after a request; see KEEP_ALIVE_OPTIONS
+  keepAlive: z.string().default(DEFAULT_KEEP_ALIVE),
+  // Empty means inline completions use the chat model
+  completionModel: z.string().default(''),
+  // Model for /api/embed when indexing the project; empty turns retrieval off
+  embeddingModel: z.string().default(''),
+  // What the profile's models can do when the server doesn't report it (OpenAI-compatible servers)
+  declaredFeatures: declaredFeaturesSchema.catch(DEFAULT_DECLARED_FEATURES).default(DEFAULT_DECLARED_FEATURES)
+});
+
+const completionSettingsSchema = z.object({
+  enabled: z.boolean(),
+  debounceMs: z.number().int().min(100),
+  maxTokens: z.number().int().min(1)
+});
+
+export const DEFAULT_COMPLETION_SETTINGS: CompletionSettings = {
+  enabled: true,
+  debounceMs: 600,
+  maxTokens: 64
+};
+
+const retrievalSettingsSchema = z.object({
+  enabled: z.boolean(),
+  // Snippets added to each prompt
+  topK: z.number().int().min(1).max(20)
+});
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  enabled: true,
+  topK: 4
+};
+
+const previewFixSettingsSchema = z.object({
+  // Test each fix in a hidden preview and ask again while it still throws
+  autoRetry: z.boolean(),
+  maxAttempts: z.number().int().min(1).max(10)
+});
+
+export const DEFAULT_PREVIEW_FIX_SETTINGS: PreviewFixSettings = {
+  autoRetry: false,
+  maxAttempts: 3
+};
+
+const jsonOutputSettingsSchema = z.object({
+  // Kept as typed so a schema that doesn't parse yet isn't lost
+  schema: z.string()
+});
+
+export const DEFAULT_JSON_OUTPUT_SETTINGS: JsonOutputSettings = {
+  schema: DEFAULT_JSON_SCHEMA
+};
+
+const settingsSchema = z.object({
+  profiles: z.array(profileSchema).min(1),
+  activeProfileId: z.string().catch(''),
+  // Generation settings saved per model name
+  presets: z.record(generationSettingsSchema).catch({}).default({}),
+  completion: completionSettingsSchema.catch(DEFAULT_COMPLETION_SETTINGS).default(DEFAULT_COMPLETION_SETTINGS),
+  retrieval: retrievalSettingsSchema.catch(DEFAULT_RETRIEVAL_SETTINGS).default(DEFAULT_RETRIEVAL_SETTINGS),
+  previewFix: previewFixSettingsSchema.catch(DEFAULT_PREVIEW_FIX_SETTINGS).default(DEFAULT_PREVIEW_FIX_SETTINGS),
+  jsonOutput: jsonOutputSettingsSchema.catch(DEFAULT_JSON_OUTPUT_SETTINGS).default(DEFAULT_JSON_OUTPUT_SETTINGS)
+});
+
+export type ConnectionProfile = z.infer<typeof profileSchema>;
+export type DeclaredFeatures = z.infer<typeof declaredFeaturesSchema>;
+export type OllamaSettings = z.infer<typeof settingsSchema>;
+export type CompletionSettings = z.infer<typeof completionSettingsSchema>;
+export type RetrievalSettings = z.infer<typeof retrievalSettingsSchema>;
+export type PreviewFixSettings = z.infer<typeof previewFixSettingsSchema>;
+export type JsonOutputSettings = z.infer<typeof jsonOutputSettingsSchema>;
+
+export const createProfile = (name: string, url = DEFAULT_OLLAMA_URL): ConnectionProfile => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  provider: 'ollama',
+  url,
+  apiKey: '',
+  model: '',
+  keepAlive: DEFAULT_KEEP_ALIVE,
+  completionModel: '',
+  embeddingModel: '',
+  declaredFeatures: DEFAULT_DECLARED_FEATURES
+});
+
+const defaultSettings = (): OllamaSettings => {
+  const profile = { ...createProfile('Local'), id: 'local' };
+  return {
+    profiles: [profile],
+    activeProfileId: profile.id,
+    presets: {},
+    completion: DEFAULT_COMPLETION_SETTINGS,
+    retrieval: DEFAULT_RETRIEVAL_SETTINGS,
+    previewFix: DEFAULT_PREVIEW_FIX_SETTINGS,
+    jsonOutput: DEFAULT_JSON_OUTPUT_SETTINGS
+  };
+};
+
+// Returns an error message, or null when the URL is usable
+export const validateOllamaUrl = (url: string): string | null => {
+  const result = ollamaUrlSchema.safeParse(url);
+  return result.success ? null : result.error.issues[0].message;
+};
+
+// A stored profile with a bad URL gets its provider's default URL back; one that is unreadable otherwise is dropped
+const readProfiles = (stored: unknown): ConnectionProfile[] =>
+  (Array.isArray(stored) ? stored : []).flatMap((item) => {
+    const result = profileSchema.safeParse(item);
+    if (result.success) return [result.data];
+
+    const provider = (item as { provider?: unknown } | null)?.provider;
+    const repaired = profileSchema.safeParse({
+      ...(item as object),
+      url: provider === 'openai' ? DEFAULT_OPENAI_URL : DEFAULT_OLLAMA_URL
+    });
+    return repaired.success ? [repaired.data] : [];
+  });
+
+export const loadOllamaSettings = (): OllamaSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaultSettings();
+
+    const stored = JSON.parse(raw);
+    if (typeof stored !== 'object' || stored === null) return defaultSettings();
+
+    // Sections are checked one by one, so one bad profile doesn't reset everything else
+    const profiles = readProfiles(stored.profiles);
+    const result = settingsSchema.safeParse({
+      ...stored,
+      profiles: profiles.length > 0 ? profiles : defaultSettings().profiles
+    });
+    if (!result.success) return defaultSettings();
+
+    const settings = result.data;
+    const activeExists = settings.profiles.some(profile => profile.id === settings.activeProfileId);
+    return activeExists ? settings : { ...settings, activeProfileId: settings.profiles[0].id };
+  } catch {
+    return defaultSettings();
+  }
+};
+
+export const saveOllamaSettings = (settings: OllamaSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be full or disabled; settings then only last for this session
+  }
+};
@@ -0,0 +1,281 @@
+export interface OllamaModelDetails {
+  format?: string;
+  family?: string;
+  // Includes the image encoder's family, e.g. "clip", for vision models
+  families?: string[];
+  parameter_size?: string;
+  quantization_level?: string;
+}
+
+export interface OllamaModel {
+  name: string;
+  // Bytes on disk
+  size: number;
+  modified_at?: string;
+  details?: OllamaModelDetails;
+}
+
+export interface OllamaModelInfo {
+  modelfile?: string;
+  parameters?: string;
+  template?: string;
+  license?: string;
+  details?: OllamaModelDetails;
+  model_info?: Record<string, unknown>;
+  // Newer Ollama versions list e.g. "completion", "insert" (FIM), "embedding", "vision", "tools"
+  capabilities?: string[];
+}
+
+export interface OllamaRunningModel {
+  name: string;
+  model: string;
+  // Total bytes in memory; size_vram of them on the GPU
+  size: number;
+  size_vram: number;
+  expires_at: string;
+  details?: OllamaModelDetails;
+}
+
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
+}
+
+export interface OllamaGenerateChunk {
+  model: string;
+  response: string;
+  done: boolean;
+  error?: string;
+}
+
+// Ollama passes arguments as an object; `id` is only sent by some servers, so callers assign one
+export interface OllamaToolCall {
+  id?: string;
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+// A function the model may call; `parameters` is a JSON schema for its arguments
+export interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Base64 images for vision models, on user messages
+  images?: string[];
+  // On assistant messages that asked for tools
+  tool_calls?: OllamaToolCall[];
+  // On tool results
+  tool_name?: string;
+  tool_call_id?: string;
+}
+
+// Durations are in nanoseconds and only present on the final (done) frame
+export interface OllamaTimings {
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  eval_count?: number;
+  eval_duration?: number;
+}
+
+export interface OllamaChatChunk extends OllamaTimings {
+  model: string;
+  message?: OllamaChatMessage;
+  done: boolean;
+  error?: string;
+}
+
+// Ollama streams newline-delimited JSON. A network chunk can end in the middle
+// of a line, so anything after the last newline is buffered until more arrives.
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseLine = (line: string): T => {
+    const frame = JSON.parse(line);
+    if (frame.error) throw new Error(frame.error);
+    return frame as T;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim()) yield parseLine(line);
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield parseLine(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Ollama reports failures as `{ "error": "..." }`; surface that instead of a bare status code
+const ensureOk = async (response: Response) => {
+  if (response.ok) return response;
+  let message = `HTTP error! status: ${response.status}`;
+  try {
+    const body = await response.json();
+    if (body?.error) message = body.error;
+  } catch {
+    // Not JSON; keep the status message
+  }
+  throw new Error(message);
+};
+
+const postJson = (url: string, body: unknown, init: RequestInit = {}) =>
+  fetch(url, {
+    ...init,
+    method: init.method ?? 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }).then(ensureOk);
+
+export const listModels = async (baseUrl: string): Promise<OllamaModel[]> => {
+  const response = await fetch(`${baseUrl}/api/tags`).then(ensureOk);
+  const data: { models?: OllamaModel[] } = await response.json();
+  return data.models ?? [];
+};
+
+export const listRunningModels = async (baseUrl: string): Promise<OllamaRunningModel[]> => {
+  const response = await fetch(`${baseUrl}/api/ps`).then(ensureOk);
+  const data: { models?: OllamaRunningModel[] } = await response.json();
+  return data.models ?? [];
+};
+
+// Durations like "5m" go over as strings; -1 (pin) and 0 (unload) must be numbers
+export const parseKeepAlive = (keepAlive: string): string | number =>
+  /^-?\d+$/.test(keepAlive.trim()) ? Number(keepAlive) : keepAlive.trim();
+
+// A generate request without a prompt only loads or unloads the model
+export const setModelKeepAlive = async (baseUrl: string, model: string, keepAlive: string) => {
+  await postJson(`${baseUrl}/api/generate`, { model, keep_alive: parseKeepAlive(keepAlive), stream: false });
+};
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaChatMessage[];
+  options?: Record<string, unknown>;
+  keep_alive?: string | number;
+  tools?: OllamaTool[];
+  // "json", or a JSON schema the reply is constrained to
+  format?: 'json' | Record<string, unknown>;
+}
+
+// Streams a chat reply token by token; resolves with the full text and the final frame's timings
+export const streamChat = async (
+  baseUrl: string,
+  request: OllamaChatRequest,
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<{ text: string; done: OllamaChatChunk }> => {
+  const response = await postJson(`${baseUrl}/api/chat`, { ...request, stream: true }, { signal });
+
+  let text = '';
+  for await (const chunk of readNdjson<OllamaChatChunk>(response)) {
+    const token = chunk.message?.content;
+    if (token) {
+      text += token;
+      onToken(token);
+    }
+    if (chunk.done) return { text, done: chunk };
+  }
+
+  throw new Error('Ollama closed the stream before the response was done');
+};
+
+export const chat = async (
+  baseUrl: string,
+  request: OllamaChatRequest,
+  signal?: AbortSignal
+): Promise<OllamaChatChunk> => {
+  const response = await postJson(`${baseUrl}/api/chat`, { ...request, stream: false }, { signal });
+  return response.json();
+};
+
+export const embed = async (
+  baseUrl: string,
+  model: string,
+  input: string[],
+  signal?: AbortSignal
+): Promise<number[][]> => {
+  const response = await postJson(`${baseUrl}/api/embed`, { model, input }, { signal });
+  const data: { embeddings?: number[][] } = await response.json();
+  return data.embeddings ?? [];
+};
+
+// Fill-in-the-middle: the model's template places `prompt` before the cursor and `suffix` after it.
+// Only models trained for FIM (qwen2.5-coder, codellama:code, starcoder2, ...) support `suffix`.
+export const generateCompletion = async (
+  baseUrl: string,
+  request: { model: string; prompt: string; suffix: string; options?: Record<string, unknown>; keep_alive?: string | number },
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await postJson(`${baseUrl}/api/generate`, { ...request, stream: false }, { signal });
+  const data: OllamaGenerateChunk = await response.json();
+  return data.response;
+};
+
+export const showModel = async (baseUrl: string, model: string): Promise<OllamaModelInfo> => {
+  const response = await postJson(`${baseUrl}/api/show`, { model });
+  return response.json();
+};
+
+export const deleteModel = async (baseUrl: string, model: string) => {
+  await postJson(`${baseUrl}/api/delete`, { model }, { method: 'DELETE' });
+};
+
+export const copyModel = async (baseUrl: string, source: string, destination: string) => {
+  await postJson(`${baseUrl}/api/copy`, { source, destination });
+};
+
+export const pullModel = async (
+  baseUrl: string,
+  model: string,
+  onProgress: (progress: OllamaPullProgress) => void,
+  signal?: AbortSignal
+) => {
+  const response = await postJson(`${baseUrl}/api/pull`, { model, stream: true }, { signal });
+  for await (const progress of readNdjson<OllamaPullProgress>(response)) {
+    onProgress(progress);
+  }
+};
+
+// model_info keys are prefixed by architecture, e.g. "llama.context_length"
+export const getContextLength = (info: OllamaModelInfo): number | undefined => {
+  const entry = Object.entries(info.model_info ?? {}).find(([key]) => key.endsWith('.context_length'));
+  return typeof entry?.[1] === 'number' ? entry[1] : undefined;
+};
+
+export const formatBytes = (bytes: number | undefined): string => {
+  if (!bytes || bytes <= 0) return '—';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  const value = bytes / Math.pow(1024, exponent);
+  return `${value.toFixed(value >= 10 || exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+};
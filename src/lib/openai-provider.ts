@@ -0,0 +1,246 @@
+import type { GenerationOptions } from '@/lib/generation-settings';
+import { EMPTY_USAGE } from '@/lib/metrics';
+import type {
+  ChatRequest,
+  ChatResult,
+  DetectedCapabilities,
+  ModelFeature,
+  ModelProvider,
+  ProviderChatMessage,
+  ProviderToolCall
+} from '@/lib/provider';
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+// Arguments arrive as a JSON string rather than an object
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIStreamChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: OpenAIUsage | null;
+}
+
+// Extra fields some servers add to /models entries: LM Studio's `type` and `capabilities`,
+// OpenRouter's `supported_parameters` and `architecture.input_modalities`
+interface OpenAIModelEntry {
+  id: string;
+  type?: string;
+  capabilities?: string[];
+  supported_parameters?: string[];
+  architecture?: { input_modalities?: string[] };
+}
+
+// Only what the entry actually states; anything else stays unknown
+const featuresFromEntry = (entry: OpenAIModelEntry): Partial<Record<ModelFeature, boolean>> => {
+  const features: Partial<Record<ModelFeature, boolean>> = {};
+  if (entry.type === 'embeddings') {
+    Object.assign(features, { embeddings: true, completion: false, tools: false, vision: false });
+  } else if (entry.type === 'vlm' || entry.type === 'llm') {
+    Object.assign(features, { embeddings: false, vision: entry.type === 'vlm' });
+  }
+  if (Array.isArray(entry.capabilities)) {
+    features.tools = entry.capabilities.includes('tool_use') || entry.capabilities.includes('tools');
+    if (entry.capabilities.includes('vision')) features.vision = true;
+  }
+  if (Array.isArray(entry.supported_parameters)) features.tools = entry.supported_parameters.includes('tools');
+  const modalities = entry.architecture?.input_modalities;
+  if (Array.isArray(modalities)) features.vision = modalities.includes('image');
+  return features;
+};
+
+// llama.cpp server, LM Studio and vLLM are usually given as ".../v1"; accept the bare host too
+const apiBase = (url: string) => (/\/v1$/.test(url) ? url : `${url}/v1`);
+
+// Servers answer errors as { error: { message } } or { error: "..." }
+const ensureOk = async (response: Response) => {
+  if (response.ok) return response;
+  let message = `HTTP error! status: ${response.status}`;
+  try {
+    const body = await response.json();
+    const error = body?.error;
+    if (typeof error === 'string') message = error;
+    else if (error?.message) message = error.message;
+  } catch {
+    // Not JSON; keep the status message
+  }
+  throw new Error(message);
+};
+
+// Sampling fields from the OpenAI API; top_k, repeat_penalty and num_ctx are Ollama-only
+const toOpenAIOptions = (options: Partial<GenerationOptions> = {}) => ({
+  ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+  ...(options.top_p !== undefined ? { top_p: options.top_p } : {}),
+  ...(options.num_predict !== undefined && options.num_predict > 0 ? { max_tokens: options.num_predict } : {}),
+  ...(options.seed !== undefined ? { seed: options.seed } : {}),
+  ...(options.stop && options.stop.length > 0 ? { stop: options.stop } : {})
+});
+
+// Images are stored as PNG or JPEG; the data URL needs to say which
+const imageUrl = (data: string) => `data:${data.startsWith('/9j/') ? 'image/jpeg' : 'image/png'};base64,${data}`;
+
+const toOpenAIMessage = ({ role, content, images, tool_calls, tool_call_id }: ProviderChatMessage) => {
+  if (role === 'tool') return { role, content, tool_call_id };
+  if (images?.length) {
+    return {
+      role,
+      content: [
+        { type: 'text', text: content },
+        ...images.map(data => ({ type: 'image_url', image_url: { url: imageUrl(data) } }))
+      ]
+    };
+  }
+  if (tool_calls?.length) {
+    return {
+      role,
+      content,
+      tool_calls: tool_calls.map((call): OpenAIToolCall => ({
+        id: call.id ?? '',
+        type: 'function',
+        function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments) }
+      }))
+    };
+  }
+  return { role, content };
+};
+
+const fromOpenAIToolCall = (call: OpenAIToolCall): ProviderToolCall => {
+  let args: Record<string, unknown> = {};
+  try {
+    args = JSON.parse(call.function.arguments || '{}');
+  } catch {
+    // Leave the arguments empty; the tool reports what's missing and the model can retry
+  }
+  return { id: call.id, function: { name: call.function.name, arguments: args } };
+};
+
+// Server-sent events: "data: {...}" lines separated by blank lines, ending with "data: [DONE]"
+async function* readSse<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.match(/^data:\s?(.*)$/)?.[1]?.trim();
+        if (!data) continue;
+        if (data === '[DONE]') return;
+        yield JSON.parse(data) as T;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const createOpenAIProvider = (url: string, apiKey: string): ModelProvider => {
+  const base = apiBase(url);
+  const headers = (): HeadersInit => ({
+    'Content-Type': 'application/json',
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+  });
+  const post = (path: string, body: unknown, signal?: AbortSignal) =>
+    fetch(`${base}${path}`, { method: 'POST', headers: headers(), body: JSON.stringify(body), signal }).then(ensureOk);
+
+  const chatBody = ({ model, messages, options, tools, format }: ChatRequest) => ({
+    model,
+    messages: messages.map(toOpenAIMessage),
+    ...(tools ? { tools } : {}),
+    ...(format ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: format } } } : {}),
+    ...toOpenAIOptions(options)
+  });
+
+  const usageFrom = (usage: OpenAIUsage | null | undefined, startedAt: number, firstTokenAt?: number) => ({
+    ...EMPTY_USAGE,
+    promptTokens: usage?.prompt_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? 0,
+    totalMs: performance.now() - startedAt,
+    evalMs: firstTokenAt !== undefined ? performance.now() - firstTokenAt : 0
+  });
+
+  const fetchModels = async (): Promise<OpenAIModelEntry[]> => {
+    const response = await fetch(`${base}/models`, { headers: headers() }).then(ensureOk);
+    const data: { data?: OpenAIModelEntry[] } = await response.json();
+    return data.data ?? [];
+  };
+
+  return {
+    kind: 'openai',
+
+    listModels: async () => (await fetchModels()).map(model => ({ name: model.id, size: 0 })),
+
+    chat: async (request): Promise<ChatResult> => {
+      const startedAt = performance.now();
+      const response = await post('/chat/completions', chatBody(request), request.signal);
+      const data: {
+        choices?: { message?: { content?: string | null; tool_calls?: OpenAIToolCall[] } }[];
+        usage?: OpenAIUsage;
+      } = await response.json();
+      const message = data.choices?.[0]?.message;
+      return {
+        text: message?.content ?? '',
+        usage: usageFrom(data.usage, startedAt),
+        toolCalls: message?.tool_calls?.map(fromOpenAIToolCall)
+      };
+    },
+
+    stream: async (request, onToken): Promise<ChatResult> => {
+      const startedAt = performance.now();
+      let firstTokenAt: number | undefined;
+      let usage: OpenAIUsage | null | undefined;
+      const response = await post('/chat/completions', {
+        ...chatBody(request),
+        stream: true,
+        stream_options: { include_usage: true }
+      }, request.signal);
+
+      let text = '';
+      for await (const chunk of readSse<OpenAIStreamChunk>(response)) {
+        const token = chunk.choices?.[0]?.delta?.content;
+        if (token) {
+          firstTokenAt ??= performance.now();
+          text += token;
+          onToken(token);
+        }
+        if (chunk.usage) usage = chunk.usage;
+      }
+      return { text, usage: usageFrom(usage, startedAt, firstTokenAt) };
+    },
+
+    // The legacy completions endpoint takes a suffix for fill-in-the-middle
+    complete: async ({ model, prompt, suffix, maxTokens, signal }) => {
+      const response = await post('/completions', { model, prompt, suffix, max_tokens: maxTokens, temperature: 0.2 }, signal);
+      const data: { choices?: { text?: string }[] } = await response.json();
+      return data.choices?.[0]?.text ?? '';
+    },
+
+    embed: async (model, input, signal) => {
+      const response = await post('/embeddings', { model, input }, signal);
+      const data: { data?: { embedding: number[]; index: number }[] } = await response.json();
+      return [...(data.data ?? [])].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    },
+
+    // Read from /models metadata rather than test requests, which can cost money or load a model.
+    // Plain OpenAI-style servers say nothing, and the profile's declared features fill in.
+    detectCapabilities: async (model): Promise<DetectedCapabilities> => {
+      const entry = (await fetchModels()).find(candidate => candidate.id === model);
+      return { ...(entry ? featuresFromEntry(entry) : {}), modelManagement: false };
+    }
+  };
+};
@@ -0,0 +1,52 @@
+import { extractCodeBlocks } from '@/lib/code-blocks';
+import type { ProjectFile } from '@/lib/files';
+import { formatPreviewEntry, type PreviewLogEntry } from '@/lib/preview';
+import type { ProviderChatMessage } from '@/lib/provider';
+
+// A fix that was tried in the hidden preview and still failed
+export interface FixAttempt {
+  code: string;
+  errors: PreviewLogEntry[];
+}
+
+const SYSTEM_PROMPT = `You fix runtime errors in a small web page made of HTML, CSS and JavaScript.
+Explain the cause in one or two sentences, then reply with the complete corrected file in a single fenced code block.
+Change only what is needed to fix the error.`;
+
+// Line numbers let the model match the reported line to the code
+const numberLines = (content: string) =>
+  content.split('\n').map((line, index) => `${String(index + 1).padStart(4)} | ${line}`).join('\n');
+
+const describeErrors = (errors: PreviewLogEntry[]) =>
+  errors.map(error => (error.stack ? `${formatPreviewEntry(error)}\n${error.stack}` : formatPreviewEntry(error))).join('\n');
+
+export const buildFixMessages = (
+  problem: PreviewLogEntry,
+  file: ProjectFile,
+  attempts: FixAttempt[] = []
+): ProviderChatMessage[] => [
+  { role: 'system', content: SYSTEM_PROMPT },
+  {
+    role: 'user',
+    content: `The preview reports this error:\n${describeErrors([problem])}\n\n` +
+      `${file.path} (${file.language}), with line numbers added:\n\`\`\`\n${numberLines(file.content)}\n\`\`\``
+  },
+  ...attempts.flatMap((attempt): ProviderChatMessage[] => [
+    { role: 'assistant', content: `\`\`\`${file.language}\n${attempt.code}\n\`\`\`` },
+    {
+      role: 'user',
+      content: `With that version the preview still reports:\n${describeErrors(attempt.errors)}\n\nTry again and reply with the complete file.`
+    }
+  ])
+];
+
+const NUMBERED_LINE = /^ *\d+ \| ?/;
+
+// The corrected file is the reply's first complete code block, minus any line numbers copied from the prompt
+export const extractFixedFile = (reply: string): string | null => {
+  const block = extractCodeBlocks(reply).find(candidate => candidate.closed);
+  if (!block) return null;
+  const lines = block.code.replace(/\n$/, '').split('\n');
+  const numbered = lines.every(line => !line.trim() || NUMBERED_LINE.test(line));
+  return numbered ? lines.map(line => line.replace(NUMBERED_LINE, '')).join('\n') : lines.join('\n');
+};
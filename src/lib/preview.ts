@@ -0,0 +1,177 @@
+export interface PreviewSources {
+  html: string;
+  css: string;
+  js: string;
+}
+
+export interface PreviewLogEntry {
+  level: 'log' | 'info' | 'warn' | 'error';
+  message: string;
+  // Line in the preview's JavaScript, when the browser reported one inside it
+  line?: number;
+  // Uncaught errors only
+  stack?: string;
+}
+
+export interface PreviewDocument {
+  html: string;
+  // Document line on which the project's JavaScript starts
+  scriptStartLine: number;
+}
+
+const MESSAGE_SOURCE = 'code-preview';
+
+// Forwards console output and uncaught errors to the parent window
+const CAPTURE_SCRIPT = `<script>
+(function () {
+  var format = function (value) {
+    if (value instanceof Error) return value.stack || value.message;
+    if (typeof value === 'object' && value !== null) {
+      try { return JSON.stringify(value); } catch (e) { return String(value); }
+    }
+    return String(value);
+  };
+  var send = function (level, message, line, stack) {
+    parent.postMessage({ source: '${MESSAGE_SOURCE}', level: level, message: message, line: line, stack: stack }, '*');
+  };
+  ['log', 'info', 'warn', 'error'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send(level, Array.prototype.map.call(arguments, format).join(' '));
+      original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    send('error', event.message || 'Script error', event.lineno, event.error && event.error.stack);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    send('error', 'Unhandled promise rejection: ' + format(event.reason));
+  });
+})();
+</script>`;
+
+export const buildPreviewDocument = (
+  { html, css, js }: PreviewSources,
+  { capture = false }: { capture?: boolean } = {}
+): PreviewDocument => {
+  const beforeScript = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Preview</title>
+  ${capture ? CAPTURE_SCRIPT : ''}
+  <style>
+    ${css}
+  </style>
+</head>
+<body>
+  ${html}
+  <script>
+`;
+  return {
+    html: `${beforeScript}${js}
+  </script>
+</body>
+</html>`,
+    scriptStartLine: beforeScript.split('\n').length
+  };
+};
+
+// Turns a message posted by the capture script into a log entry; anything else is ignored
+export const readPreviewMessage = (data: unknown, scriptStartLine: number): PreviewLogEntry | null => {
+  if (typeof data !== 'object' || data === null) return null;
+  const { source, level, message, line, stack } = data as Record<string, unknown>;
+  if (source !== MESSAGE_SOURCE || typeof message !== 'string') return null;
+  if (level !== 'log' && level !== 'info' && level !== 'warn' && level !== 'error') return null;
+
+  const scriptLine = typeof line === 'number' && line >= scriptStartLine ? line - scriptStartLine + 1 : undefined;
+  return {
+    level,
+    message,
+    ...(scriptLine !== undefined ? { line: scriptLine } : {}),
+    ...(typeof stack === 'string' && stack ? { stack } : {})
+  };
+};
+
+export const formatPreviewEntry = ({ level, message, line }: PreviewLogEntry) =>
+  `[${level}] ${message}${line !== undefined ? ` (script line ${line})` : ''}`;
+
+/**
+ * Loads the page in a hidden iframe and collects what it logs or throws while
+ * it starts up. Scripts keep running after `durationMs`; only their output
+ * until then is reported.
+ */
+export const runPreview = (sources: PreviewSources, durationMs = 1500): Promise<PreviewLogEntry[]> =>
+  new Promise((resolve) => {
+    const { html, scriptStartLine } = buildPreviewDocument(sources, { capture: true });
+    const iframe = document.createElement('iframe');
+    const entries: PreviewLogEntry[] = [];
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
+      const entry = readPreviewMessage(event.data, scriptStartLine);
+      if (entry) entries.push(entry);
+    };
+
+    window.addEventListener('message', handleMessage);
+    iframe.sandbox.add('allow-scripts');
+    iframe.style.display = 'none';
+    iframe.srcdoc = html;
+    document.body.appendChild(iframe);
+
+    window.setTimeout(() => {
+      window.removeEventListener('message', handleMessage);
+      iframe.remove();
+      resolve(entries);
+    }, durationMs);
+  });
+
+/**
+ * Draws what the preview iframe currently shows. The live DOM is rendered
+ * through an SVG image, so styles and the scroll position carry over but
+ * external images and fonts don't load. The iframe has to be same-origin.
+ */
+export const capturePreview = async (iframe: HTMLIFrameElement): Promise<HTMLCanvasElement> => {
+  const doc = iframe.contentDocument;
+  const view = iframe.contentWindow;
+  if (!doc || !view) throw new Error('The preview has not loaded yet');
+
+  const width = iframe.clientWidth;
+  const height = iframe.clientHeight;
+  const root = doc.documentElement.cloneNode(true) as HTMLElement;
+  root.querySelectorAll('script').forEach(script => script.remove());
+
+  // Canvas drawings aren't part of the markup; swap each one for a picture of itself
+  const liveCanvases = doc.querySelectorAll('canvas');
+  root.querySelectorAll('canvas').forEach((canvas, index) => {
+    const picture = doc.createElement('img');
+    picture.src = liveCanvases[index].toDataURL();
+    for (const attribute of ['class', 'style', 'width', 'height']) {
+      const value = canvas.getAttribute(attribute);
+      if (value !== null) picture.setAttribute(attribute, value);
+    }
+    canvas.replaceWith(picture);
+  });
+  root.style.transform = `translate(${-view.scrollX}px, ${-view.scrollY}px)`;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<foreignObject width="100%" height="100%">${new XMLSerializer().serializeToString(root)}</foreignObject></svg>`;
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const loaded = new Image();
+    loaded.onload = () => resolve(loaded);
+    loaded.onerror = () => reject(new Error('The preview could not be drawn'));
+    loaded.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('The preview could not be drawn');
+  // Pages without a background show white in the iframe, not transparent
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0);
+  return canvas;
+};
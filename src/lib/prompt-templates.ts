@@ -0,0 +1,113 @@
+import { z } from 'zod';
+
+const STORAGE_KEY = 'prompt-templates';
+
+export const promptTemplateSchema = z.object({
+  command: z
+    .string()
+    .trim()
+    // Typed commands are matched in lower case, so stored ones must be too
+    .toLowerCase()
+    .regex(/^[a-z0-9][a-z0-9-]*$/, 'Use letters, numbers and dashes only'),
+  description: z.string().default(''),
+  template: z.string().min(1, 'Template cannot be empty')
+});
+
+export type PromptTemplate = z.infer<typeof promptTemplateSchema>;
+
+export const TEMPLATE_VARIABLES = ['input', 'selection', 'file', 'filename', 'language'] as const;
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    command: 'test',
+    description: 'Write unit tests for the selection',
+    template: 'Write unit tests for this {{language}} code from {{filename}}. Cover edge cases. {{input}}\n\n```{{language}}\n{{selection}}\n```'
+  },
+  {
+    command: 'explain',
+    description: 'Explain the current file',
+    template: 'Explain what {{filename}} does, section by section. {{input}}\n\n```{{language}}\n{{file}}\n```'
+  },
+  {
+    command: 'fix',
+    description: 'Find and fix bugs in the selection',
+    template: 'Find and fix the bugs in this {{language}} code from {{filename}}. Show the corrected code. {{input}}\n\n```{{language}}\n{{selection}}\n```'
+  },
+  {
+    command: 'doc',
+    description: 'Add documentation comments to the selection',
+    template: 'Add documentation comments to this {{language}} code. Return the full documented code. {{input}}\n\n```{{language}}\n{{selection}}\n```'
+  },
+  {
+    command: 'commit',
+    description: 'Draft a commit message for a change',
+    template: 'Write a git commit message for this change: a subject line under 72 characters, a blank line, then a short body. Change: {{input}}\n\nCurrent {{filename}}:\n```{{language}}\n{{file}}\n```'
+  }
+];
+
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const result = z.array(promptTemplateSchema).safeParse(JSON.parse(raw));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: PromptTemplate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch {
+    // Storage can be full or disabled; templates then only last for this session
+  }
+};
+
+export const exportTemplatesJson = (templates: PromptTemplate[]) => JSON.stringify({ templates }, null, 2);
+
+// Accepts what exportTemplatesJson writes, or a bare array; throws with a readable message otherwise
+export const parseTemplatesJson = (json: string): PromptTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const list = Array.isArray(data) ? data : (data as { templates?: unknown })?.templates;
+  const result = z.array(promptTemplateSchema).safeParse(list);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid template at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return result.data;
+};
+
+// Custom templates replace built-ins with the same command
+export const mergeTemplates = (custom: PromptTemplate[]): PromptTemplate[] => {
+  const customCommands = new Set(custom.map(template => template.command));
+  return [...BUILTIN_TEMPLATES.filter(template => !customCommands.has(template.command)), ...custom];
+};
+
+// "/fix the loop" -> { command: 'fix', rest: 'the loop' }
+export const parseSlashCommand = (input: string): { command: string; rest: string } | null => {
+  const match = input.match(/^\/([a-z0-9-]+)(?:\s+([\s\S]*))?$/i);
+  return match ? { command: match[1].toLowerCase(), rest: (match[2] ?? '').trim() } : null;
+};
+
+export const renderTemplate = (
+  template: string,
+  values: Partial<Record<TemplateVariable, string>>
+): { text: string; missing: TemplateVariable[] } => {
+  const missing = new Set<TemplateVariable>();
+  const text = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) return placeholder;
+    const value = values[name as TemplateVariable];
+    // Extra instructions are optional; everything else the template needs must be there
+    if (value === undefined && name !== 'input') missing.add(name as TemplateVariable);
+    return value ?? '';
+  });
+  return { text: text.replace(/ +\n/g, '\n').trim(), missing: [...missing] };
+};
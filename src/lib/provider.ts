@@ -0,0 +1,83 @@
+import type { GenerationOptions } from '@/lib/generation-settings';
+import type { GenerationUsage } from '@/lib/metrics';
+import type { OllamaChatMessage, OllamaModel, OllamaTool, OllamaToolCall } from '@/lib/ollama';
+import { createOllamaProvider } from '@/lib/ollama-provider';
+import { createOpenAIProvider } from '@/lib/openai-provider';
+
+export type ProviderKind = 'ollama' | 'openai';
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  ollama: 'Ollama',
+  openai: 'OpenAI-compatible'
+};
+
+// What the server behind a profile can do with a given model
+export interface ProviderCapabilities {
+  // Fill-in-the-middle completions for editor ghost text
+  completion: boolean;
+  embeddings: boolean;
+  // Function calling, used by agent mode
+  tools: boolean;
+  // Images in prompts
+  vision: boolean;
+  // Pull, delete, copy, loaded-model status and keep_alive
+  modelManagement: boolean;
+}
+
+// Features a server may not report for a model; the rest of ProviderCapabilities is known per provider
+export type ModelFeature = 'completion' | 'embeddings' | 'tools' | 'vision';
+
+// What detection found out; features the server doesn't report are left out
+export type DetectedCapabilities = Partial<Record<ModelFeature, boolean>> & { modelManagement: boolean };
+
+export type ProviderChatMessage = OllamaChatMessage;
+export type ProviderModel = OllamaModel;
+export type ProviderTool = OllamaTool;
+export type ProviderToolCall = OllamaToolCall;
+
+export interface ChatRequest {
+  model: string;
+  messages: ProviderChatMessage[];
+  options?: Partial<GenerationOptions>;
+  // Tool calls come back from chat(); stream() only yields text
+  tools?: ProviderTool[];
+  // JSON schema the reply must follow
+  format?: Record<string, unknown>;
+  // Ollama only; other providers manage model memory themselves
+  keepAlive?: string;
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  text: string;
+  usage: GenerationUsage;
+  toolCalls?: ProviderToolCall[];
+}
+
+export interface CompletionRequest {
+  model: string;
+  prompt: string;
+  suffix: string;
+  maxTokens: number;
+  keepAlive?: string;
+  signal?: AbortSignal;
+}
+
+export interface ModelProvider {
+  kind: ProviderKind;
+  listModels(): Promise<ProviderModel[]>;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  stream(request: ChatRequest, onToken: (token: string) => void): Promise<ChatResult>;
+  complete(request: CompletionRequest): Promise<string>;
+  embed(model: string, input: string[], signal?: AbortSignal): Promise<number[][]>;
+  detectCapabilities(model: string): Promise<DetectedCapabilities>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderKind;
+  url: string;
+  apiKey: string;
+}
+
+export const createProvider = ({ provider, url, apiKey }: ProviderConfig): ModelProvider =>
+  provider === 'openai' ? createOpenAIProvider(url, apiKey) : createOllamaProvider(url);
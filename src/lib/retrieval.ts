@@ -0,0 +1,143 @@
+import type { ProjectFile } from '@/lib/files';
+
+// Small projects fit in the prompt whole; retrieval only kicks in above this
+export const RETRIEVAL_MIN_FILES = 4;
+
+const CHUNK_LINES = 40;
+// Lines shared by neighbouring chunks so code split at a boundary is still found
+const CHUNK_OVERLAP = 8;
+// Inputs per /api/embed request
+const EMBED_BATCH = 16;
+
+export interface RetrievalChunk {
+  fileId: string;
+  path: string;
+  language: string;
+  // 1-based and inclusive, as shown in the editor gutter
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+// Where a retrieved snippet came from, kept on the reply that may cite it
+export type RetrievalCitation = Pick<RetrievalChunk, 'fileId' | 'path' | 'startLine' | 'endLine'>;
+
+interface IndexedChunk extends RetrievalChunk {
+  vector: number[];
+}
+
+interface IndexedFile {
+  hash: string;
+  chunks: IndexedChunk[];
+}
+
+export interface RetrievalIndex {
+  // Vectors from different embedding models can't be compared, so each index belongs to one
+  model: string;
+  files: Record<string, IndexedFile>;
+}
+
+export interface RetrievedChunk extends RetrievalChunk {
+  score: number;
+}
+
+export type EmbedFn = (input: string[]) => Promise<number[][]>;
+
+export const createRetrievalIndex = (model: string): RetrievalIndex => ({ model, files: {} });
+
+export const countIndexedChunks = (index: RetrievalIndex) =>
+  Object.values(index.files).reduce((total, file) => total + file.chunks.length, 0);
+
+// FNV-1a; only used to notice that a file changed since it was embedded
+const hashContent = (content: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+export const chunkFile = (file: ProjectFile): RetrievalChunk[] => {
+  const lines = file.content.split('\n');
+  const chunks: RetrievalChunk[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    const text = lines.slice(start, end).join('\n');
+    if (text.trim()) {
+      chunks.push({
+        fileId: file.id,
+        path: file.path,
+        language: file.language,
+        startLine: start + 1,
+        endLine: end,
+        text
+      });
+    }
+    if (end === lines.length) break;
+  }
+  return chunks;
+};
+
+// The path is embedded with the code so questions that name a file find it
+const embeddingInput = (chunk: RetrievalChunk) => `${chunk.path}\n${chunk.text}`;
+
+/**
+ * Brings the index in line with the project: files whose content is unchanged
+ * keep their vectors, changed and new files are re-chunked and embedded, and
+ * deleted files are dropped. `onProgress` receives the index after each file
+ * so an interrupted update keeps the work it already did.
+ */
+export async function updateRetrievalIndex(
+  index: RetrievalIndex,
+  files: ProjectFile[],
+  embedInputs: EmbedFn,
+  onProgress?: (index: RetrievalIndex) => void
+): Promise<RetrievalIndex> {
+  const liveIds = new Set(files.map(file => file.id));
+  let next: RetrievalIndex = {
+    ...index,
+    files: Object.fromEntries(Object.entries(index.files).filter(([id]) => liveIds.has(id)))
+  };
+
+  for (const file of files) {
+    const hash = hashContent(`${file.path}\n${file.content}`);
+    if (next.files[file.id]?.hash === hash) continue;
+
+    const chunks = chunkFile(file);
+    const vectors: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH) {
+      vectors.push(...await embedInputs(chunks.slice(i, i + EMBED_BATCH).map(embeddingInput)));
+    }
+    if (vectors.length !== chunks.length) throw new Error('Embedding server returned the wrong number of vectors');
+
+    next = {
+      ...next,
+      files: { ...next.files, [file.id]: { hash, chunks: chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] })) } }
+    };
+    onProgress?.(next);
+  }
+  return next;
+}
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export const searchRetrievalIndex = (index: RetrievalIndex, query: number[], topK: number): RetrievedChunk[] =>
+  Object.values(index.files)
+    .flatMap(file => file.chunks)
+    .map(({ vector, ...chunk }) => ({ ...chunk, score: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+
+export const formatChunkLocation = (chunk: RetrievalCitation) => `${chunk.path}:${chunk.startLine}-${chunk.endLine}`;
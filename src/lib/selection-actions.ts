@@ -0,0 +1,111 @@
+import type { OllamaChatMessage } from '@/lib/ollama';
+import { extractCodeBlocks } from '@/lib/code-blocks';
+
+export type SelectionActionId = 'explain' | 'refactor' | 'comment' | 'find-bugs' | 'optimize' | 'convert-ts';
+
+export interface SelectionAction {
+  id: SelectionActionId;
+  label: string;
+  // 'edit' replies replace the selection and go through the diff review; 'explain' replies are read
+  kind: 'edit' | 'explain';
+  instruction: string;
+  // Only offered for files with these extensions; unset means every file
+  extensions?: string[];
+}
+
+export const SELECTION_ACTIONS: SelectionAction[] = [
+  {
+    id: 'explain',
+    label: 'Explain',
+    kind: 'explain',
+    instruction: 'Explain what the selected code does and how it fits into the file. Be concise.'
+  },
+  {
+    id: 'refactor',
+    label: 'Refactor',
+    kind: 'edit',
+    instruction: 'Refactor the selected code for readability and maintainability without changing its behaviour.'
+  },
+  {
+    id: 'comment',
+    label: 'Add comments',
+    kind: 'edit',
+    instruction: 'Add concise comments to the selected code where they help. Do not change the code itself.'
+  },
+  {
+    id: 'find-bugs',
+    label: 'Find bugs',
+    kind: 'explain',
+    instruction: 'Review the selected code for bugs and edge cases. List each problem with a short suggested fix, or say that none were found.'
+  },
+  {
+    id: 'optimize',
+    label: 'Optimize',
+    kind: 'edit',
+    instruction: 'Optimize the selected code for performance without changing its behaviour.'
+  },
+  {
+    id: 'convert-ts',
+    label: 'Convert to TypeScript',
+    kind: 'edit',
+    instruction: 'Convert the selected code to TypeScript with accurate type annotations.',
+    // The edit replaces the selection in place, and type syntax would break a .js file and the preview
+    extensions: ['ts', 'tsx']
+  }
+];
+
+export const getSelectionActions = (fileName: string) => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return SELECTION_ACTIONS.filter(action => !action.extensions || action.extensions.includes(extension));
+};
+
+export const getSelectionAction = (id: SelectionActionId) =>
+  SELECTION_ACTIONS.find(action => action.id === id) ?? SELECTION_ACTIONS[0];
+
+export interface SelectionContext {
+  fileName: string;
+  language: string;
+  content: string;
+  start: number;
+  end: number;
+}
+
+// Lines of the file on each side of the selection sent along for context
+const CONTEXT_LINES = 40;
+
+const SELECTION_START = '<<<SELECTION>>>';
+const SELECTION_END = '<<<END SELECTION>>>';
+
+export const buildSelectionMessages = (action: SelectionAction, context: SelectionContext): OllamaChatMessage[] => {
+  const { fileName, language, content, start, end } = context;
+  const before = content.slice(0, start).split('\n').slice(-CONTEXT_LINES).join('\n');
+  const after = content.slice(end).split('\n').slice(0, CONTEXT_LINES + 1).join('\n');
+  const answerFormat = action.kind === 'edit'
+    ? `Reply with only the code that replaces the selection, in a single \`\`\`${language} code block. Keep the indentation of the surrounding code.`
+    : 'Reply in markdown.';
+
+  return [
+    {
+      role: 'system',
+      content: 'You are a coding assistant working on a selection inside a file. ' +
+        `The selection is marked with ${SELECTION_START} and ${SELECTION_END}; only the selection is in scope.`
+    },
+    {
+      role: 'user',
+      content: `File: ${fileName}\n\n\`\`\`${language}\n${before}${SELECTION_START}${content.slice(start, end)}${SELECTION_END}${after}\n\`\`\`\n\n${action.instruction}\n\n${answerFormat}`
+    }
+  ];
+};
+
+// Takes the replacement code out of an edit reply and lines it up with the original selection.
+// Throws when the reply has no code block, rather than putting its prose into the file.
+export const extractReplacement = (reply: string, selected: string): string => {
+  const block = extractCodeBlocks(reply)[0];
+  if (!block) throw new Error("The reply didn't include a code block to replace the selection with.");
+  let code = block.code.replace(/\n$/, '');
+
+  const indent = selected.match(/^[ \t]*/)?.[0] ?? '';
+  if (indent && !/^[ \t]/.test(code)) code = indent + code;
+  if (selected.endsWith('\n')) code += '\n';
+  return code;
+};
@@ -1,82 +1,361 @@
-import { useState } from 'react';
-import { CodeEditor } from '@/components/CodeEditor';
+import { useMemo, useRef, useState } from 'react';
+import { CodeEditor, type EditorSelection } from '@/components/CodeEditor';
 import { AIChat } from '@/components/AIChat';
 import { FileExplorer } from '@/components/FileExplorer';
 import { PreviewPane } from '@/components/PreviewPane';
+import { DiffPreviewDialog, type PendingEdit } from '@/components/DiffPreviewDialog';
+import { ChangesetDialog, type AppliedChange } from '@/components/ChangesetDialog';
+import { SelectionActionDialog } from '@/components/SelectionActionDialog';
+import { PreviewFixDialog } from '@/components/PreviewFixDialog';
+import { ToastAction } from '@/components/ui/toast';
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import {
+  addFileAtPath,
+  addFileToRoot,
+  createNodeId,
+  findFileNode,
+  getExtensionForLanguage,
+  getLanguageFromFile,
+  getLineRangeOffsets,
+  getProjectFiles,
+  initialFiles,
+  resolveFilePath,
+  updateFileContent,
+  type FileNode
+} from '@/lib/files';
+import type { CodeApplyAction, CodeBlock } from '@/lib/code-blocks';
+import { buildChangeset, type FileChange } from '@/lib/changeset';
+import { useToast } from '@/hooks/use-toast';
+import { useSelectionAction } from '@/hooks/use-selection-action';
+import { usePreviewFix } from '@/hooks/use-preview-fix';
+import { extractReplacement, getSelectionAction, type SelectionActionId } from '@/lib/selection-actions';
+import type { AgentWorkspace } from '@/lib/agent';
+import { runPreview, type PreviewLogEntry } from '@/lib/preview';
+import type { ChatImage } from '@/lib/chat-images';
 
-interface FileNode {
-  id: string;
-  name: string;
-  type: 'file' | 'folder';
-  children?: FileNode[];
-  content?: string;
+type PreviewContents = { html: string; css: string; js: string };
+// Id of the file each preview slot was last filled from
+type PreviewSources = Partial<Record<keyof PreviewContents, string>>;
+
+interface WorkspaceSnapshot {
+  files: FileNode[];
+  fileContents: PreviewContents;
+  previewSources: PreviewSources;
 }
 
+const UNDO_LIMIT = 20;
+
+// Which preview slot a file feeds, if any
+const getPreviewKey = (fileName: string): keyof PreviewContents | undefined => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'html' || ext === 'htm') return 'html';
+  if (ext === 'css') return 'css';
+  if (ext === 'js' || ext === 'ts') return 'js';
+  return undefined;
+};
+
 const Index = () => {
-  const [selectedFile, setSelectedFile] = useState<FileNode>({
-    id: '4',
-    name: 'script.js',
-    type: 'file',
-    content: 'console.log("Hello from JavaScript!");\n\n// Your code here'
-  });
+  const [files, setFiles] = useState<FileNode[]>(initialFiles);
+  const [selectedFileId, setSelectedFileId] = useState('4');
+  const [selection, setSelection] = useState<EditorSelection | null>(null);
+  const [revealRange, setRevealRange] = useState<{ start: number; end: number }>();
+  const [pendingEdit, setPendingEdit] = useState<PendingEdit | null>(null);
+  const [changeset, setChangeset] = useState<FileChange[] | null>(null);
+  // Latest preview screenshot, handed to the chat as an attachment
+  const [previewScreenshot, setPreviewScreenshot] = useState<ChatImage>();
+  const undoStackRef = useRef<WorkspaceSnapshot[]>([]);
+  // AI replies arrive many renders after they were asked for; they're checked against the files as they are then
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  const [undoDepth, setUndoDepth] = useState(0);
+  const { toast } = useToast();
+  const selectionAction = useSelectionAction();
+  const previewFix = usePreviewFix();
+  const selectedFile = findFileNode(files, selectedFileId);
+  // Stable between edits so the retrieval index only refreshes when files change
+  const projectFiles = useMemo(() => getProjectFiles(files), [files]);
+  const activeFile = projectFiles.find(file => file.id === selectedFileId);
   
-  const [fileContents, setFileContents] = useState({
+  const [fileContents, setFileContents] = useState<PreviewContents>({
     html: '<!DOCTYPE html>\n<html>\n<head>\n  <title>My App</title>\n</head>\n<body>\n  <h1>Hello World</h1>\n</body>\n</html>',
     css: 'body {\n  font-family: Arial, sans-serif;\n  margin: 0;\n  padding: 20px;\n}',
     js: 'console.log("Hello from JavaScript!");\n\n// Your code here'
   });
+  // Lets a preview error lead back to the file that is actually running
+  const [previewSources, setPreviewSources] = useState<PreviewSources>({ html: '2', css: '3', js: '4' });
 
   const handleFileSelect = (file: FileNode) => {
-    setSelectedFile(file);
+    setSelectedFileId(file.id);
+    setSelection(null);
+  };
+
+  const handleOpenFileRange = (fileId: string, startLine: number, endLine: number) => {
+    const file = findFileNode(files, fileId);
+    if (!file) {
+      toast({ variant: 'destructive', description: 'That file no longer exists' });
+      return;
+    }
+    handleFileSelect(file);
+    setRevealRange(getLineRangeOffsets(file.content || '', startLine, endLine));
+  };
+
+  const handleFileCreate = (name: string, content = '// New file\n') => {
+    const newFile: FileNode = {
+      id: createNodeId(),
+      name,
+      type: 'file',
+      content
+    };
+    setFiles(prev => addFileToRoot(prev, newFile));
+    handleFileSelect(newFile);
+  };
+
+  const setFileContent = (file: FileNode, newCode: string) => {
+    setFiles(prev => updateFileContent(prev, file.id, newCode));
+
+    // Update file contents for preview
+    const previewKey = getPreviewKey(file.name);
+    if (previewKey) {
+      setFileContents(prev => ({ ...prev, [previewKey]: newCode }));
+      setPreviewSources(prev => ({ ...prev, [previewKey]: file.id }));
+    }
+  };
+
+  const undoLastApply = () => {
+    const snapshot = undoStackRef.current.pop();
+    if (!snapshot) return;
+
+    setFiles(snapshot.files);
+    setFileContents(snapshot.fileContents);
+    setPreviewSources(snapshot.previewSources);
+    setUndoDepth(undoStackRef.current.length);
+    setSelectedFileId(prev => findFileNode(snapshot.files, prev) ? prev : getProjectFiles(snapshot.files)[0]?.id ?? '');
+    setSelection(null);
+    toast({ description: 'Reverted the last AI change' });
+  };
+
+  // Every AI-applied edit is one undo step, however many files it touched
+  const recordUndoStep = (description: string) => {
+    undoStackRef.current = [...undoStackRef.current, { files, fileContents, previewSources }].slice(-UNDO_LIMIT);
+    setUndoDepth(undoStackRef.current.length);
+    toast({
+      description,
+      action: <ToastAction altText="Undo" onClick={undoLastApply}>Undo</ToastAction>
+    });
   };
 
   const handleCodeChange = (newCode: string) => {
     if (selectedFile) {
-      setSelectedFile(prev => ({ ...prev, content: newCode }));
-      
-      // Update file contents for preview
-      const ext = selectedFile.name.split('.').pop()?.toLowerCase();
-      if (ext === 'html' || ext === 'htm') {
-        setFileContents(prev => ({ ...prev, html: newCode }));
-      } else if (ext === 'css') {
-        setFileContents(prev => ({ ...prev, css: newCode }));
-      } else if (ext === 'js' || ext === 'ts') {
-        setFileContents(prev => ({ ...prev, js: newCode }));
+      setFileContent(selectedFile, newCode);
+    }
+  };
+
+  const handleApplyCode = (code: string, action: CodeApplyAction, language: string) => {
+    if (action === 'create-file') {
+      setPendingEdit({
+        title: 'Create new file',
+        fileName: `untitled.${getExtensionForLanguage(language || getLanguageFromFile(selectedFile?.name || ''))}`,
+        original: '',
+        proposed: code
+      });
+      return;
+    }
+
+    if (!selectedFile) return;
+    const current = selectedFile.content || '';
+    const edit = { fileId: selectedFile.id, fileName: selectedFile.name, original: current };
+
+    switch (action) {
+      case 'replace-file':
+        setPendingEdit({ ...edit, title: 'Replace file', proposed: code });
+        break;
+      case 'insert-at-cursor': {
+        const cursor = selection?.end ?? current.length;
+        setPendingEdit({
+          ...edit,
+          title: 'Insert at cursor',
+          proposed: current.slice(0, cursor) + code + current.slice(cursor)
+        });
+        break;
       }
+      case 'replace-selection':
+        if (!selection?.text) {
+          toast({ variant: 'destructive', description: 'Select code in the editor first' });
+          return;
+        }
+        setPendingEdit({
+          ...edit,
+          title: 'Replace selection',
+          proposed: current.slice(0, selection.start) + code + current.slice(selection.end)
+        });
+        break;
     }
   };
 
-  const handleAICodeGenerate = (generatedCode: string) => {
-    if (selectedFile) {
-      const newContent = selectedFile.content + '\n\n' + generatedCode;
-      handleCodeChange(newContent);
+  const handleSelectionAction = async (id: SelectionActionId) => {
+    if (!selectedFile || !selection?.text) return;
+
+    const action = getSelectionAction(id);
+    const content = selectedFile.content || '';
+    const { start, end, text } = selection;
+    const reply = await selectionAction.start(action, {
+      fileName: selectedFile.name,
+      language: getLanguageFromFile(selectedFile.name),
+      content,
+      start,
+      end
+    });
+    if (reply === null || action.kind !== 'edit') return;
+
+    let replacement: string;
+    try {
+      replacement = extractReplacement(reply, text);
+    } catch (error) {
+      // The dialog stays open with the reply so it can still be read or copied
+      toast({ variant: 'destructive', description: (error as Error).message });
+      return;
     }
+
+    // Edits made while the reply streamed are kept: the change goes wherever the selected text is now
+    const current = findFileNode(filesRef.current, selectedFile.id)?.content;
+    const offset = current === content ? start : current?.indexOf(text) ?? -1;
+    if (current === undefined || offset === -1 || (current !== content && current.indexOf(text, offset + 1) !== -1)) {
+      toast({ variant: 'destructive', description: `${selectedFile.name} changed while the reply was written and the selection can't be found in it` });
+      return;
+    }
+    selectionAction.close();
+    setPendingEdit({
+      title: action.label,
+      fileId: selectedFile.id,
+      fileName: selectedFile.name,
+      original: current,
+      proposed: current.slice(0, offset) + replacement + current.slice(offset + text.length)
+    });
+  };
+
+  const handleFixPreviewError = async (problem: PreviewLogEntry) => {
+    // Runtime errors come from the page's script; without one, only the HTML can be at fault
+    const slot: keyof PreviewContents = fileContents.js.trim() ? 'js' : 'html';
+    const file = projectFiles.find(candidate => candidate.id === previewSources[slot]);
+    if (!file) {
+      toast({ variant: 'destructive', description: 'Could not find the file the preview is running' });
+      return;
+    }
+
+    const result = await previewFix.start(problem, file, fileContents, slot);
+    if (!result) return;
+
+    // The fix rewrites the whole file, so it can't be merged with edits made while it was worked out
+    const latest = findFileNode(filesRef.current, file.id);
+    if (!latest || (latest.content || '') !== file.content) {
+      toast({ variant: 'destructive', description: `${file.name} changed while the fix was being made, so it wasn't offered. Try again.` });
+      return;
+    }
+    previewFix.close();
+    const remaining = result.remainingErrors.length;
+    setPendingEdit({
+      title: remaining > 0 ? `Fix error (preview still reports ${remaining} error${remaining === 1 ? '' : 's'})` : 'Fix error',
+      fileId: file.id,
+      fileName: file.name,
+      original: file.content,
+      proposed: result.code
+    });
+  };
+
+  const handleAcceptEdit = (content: string, fileName: string) => {
+    const target = pendingEdit?.fileId ? findFileNode(files, pendingEdit.fileId) : undefined;
+    // Accepting would otherwise undo whatever was typed since the diff was made
+    if (target && (target.content || '') !== pendingEdit?.original) {
+      toast({ variant: 'destructive', description: `${target.name} changed after this suggestion was made, so it wasn't applied` });
+      setPendingEdit(null);
+      return;
+    }
+    if (target) {
+      recordUndoStep(`Updated ${target.name}`);
+      setFileContent(target, content);
+    } else {
+      recordUndoStep(`Created ${fileName}`);
+      handleFileCreate(fileName, content);
+    }
+    setSelection(null);
+    setPendingEdit(null);
+  };
+
+  const handleProposeChangeset = (blocks: CodeBlock[]) => {
+    const changes = buildChangeset(blocks, projectFiles);
+    if (changes.length === 0) {
+      toast({ description: 'These files already match the suggested code' });
+      return;
+    }
+    setChangeset(changes);
   };
 
-  const getLanguageFromFile = (fileName: string): string => {
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    switch (ext) {
-      case 'html':
-      case 'htm':
-        return 'html';
-      case 'css':
-        return 'css';
-      case 'js':
-        return 'javascript';
-      case 'ts':
-        return 'typescript';
-      default:
-        return 'javascript';
+  const handleApplyChangeset = (applied: AppliedChange[]) => {
+    let nextFiles = files;
+    const nextContents = { ...fileContents };
+    const nextSources = { ...previewSources };
+
+    applied.forEach(({ change, content }) => {
+      const existing = change.fileId ? findFileNode(nextFiles, change.fileId) : undefined;
+      const id = existing?.id ?? createNodeId();
+      if (existing) {
+        nextFiles = updateFileContent(nextFiles, id, content);
+      } else {
+        nextFiles = addFileAtPath(nextFiles, change.path, { id, name: '', type: 'file', content });
+      }
+
+      const previewKey = getPreviewKey(change.path);
+      if (previewKey) {
+        nextContents[previewKey] = content;
+        nextSources[previewKey] = id;
+      }
+    });
+
+    recordUndoStep(`Applied changes to ${applied.length} file${applied.length === 1 ? '' : 's'}`);
+    setFiles(nextFiles);
+    setFileContents(nextContents);
+    setPreviewSources(nextSources);
+    setChangeset(null);
+  };
+
+  // Each approved agent write is its own undo step; `path` comes from resolvePath below
+  const handleAgentWrite = (path: string, content: string) => {
+    const existing = projectFiles.find(file => file.path === path);
+    const id = existing?.id ?? createNodeId();
+    recordUndoStep(`${existing ? 'Updated' : 'Created'} ${path}`);
+    setFiles(prev => existing
+      ? updateFileContent(prev, id, content)
+      : addFileAtPath(prev, path, { id, name: '', type: 'file', content }));
+
+    const previewKey = getPreviewKey(path);
+    if (previewKey) {
+      setFileContents(prev => ({ ...prev, [previewKey]: content }));
+      setPreviewSources(prev => ({ ...prev, [previewKey]: id }));
     }
   };
 
+  const agentWorkspace: AgentWorkspace = {
+    getFiles: () => projectFiles,
+    resolvePath: (path) => resolveFilePath(files, path),
+    writeFile: handleAgentWrite,
+    runPreview: () => runPreview(fileContents)
+  };
+
+  const changedFileIds = new Set((changeset || []).flatMap(change => (change.fileId ? [change.fileId] : [])));
+
   return (
     <div className="h-screen bg-background">
       <ResizablePanelGroup direction="horizontal" className="h-full">
         {/* File Explorer */}
         <ResizablePanel defaultSize={20} minSize={15} maxSize={30}>
-          <FileExplorer onFileSelect={handleFileSelect} selectedFile={selectedFile} />
+          <FileExplorer
+            files={files}
+            onFileSelect={handleFileSelect}
+            onFileCreate={handleFileCreate}
+            selectedFile={selectedFile}
+            changedFileIds={changedFileIds}
+            onUndo={undoDepth > 0 ? undoLastApply : undefined}
+          />
         </ResizablePanel>
         
         <ResizableHandle withHandle />
@@ -89,7 +368,11 @@ const Index = () => {
               <CodeEditor
                 value={selectedFile?.content || ''}
                 onChange={handleCodeChange}
+                onSelectionChange={setSelection}
+                onSelectionAction={handleSelectionAction}
+                revealRange={revealRange}
                 language={getLanguageFromFile(selectedFile?.name || '')}
+                fileName={selectedFile?.name}
               />
             </ResizablePanel>
             
@@ -101,6 +384,8 @@ const Index = () => {
                 htmlContent={fileContents.html}
                 cssContent={fileContents.css}
                 jsContent={fileContents.js}
+                onFixError={handleFixPreviewError}
+                onScreenshot={setPreviewScreenshot}
               />
             </ResizablePanel>
           </ResizablePanelGroup>
@@ -110,9 +395,34 @@ const Index = () => {
         
         {/* AI Chat */}
         <ResizablePanel defaultSize={20} minSize={15} maxSize={35}>
-          <AIChat onCodeGenerate={handleAICodeGenerate} />
+          <AIChat
+            onApplyCode={handleApplyCode}
+            onProposeChangeset={handleProposeChangeset}
+            activeFile={activeFile}
+            selection={selection?.text ? selection.text : undefined}
+            projectFiles={projectFiles}
+            onOpenFileRange={handleOpenFileRange}
+            agentWorkspace={agentWorkspace}
+            incomingImage={previewScreenshot}
+            onCreateFile={handleFileCreate}
+          />
         </ResizablePanel>
       </ResizablePanelGroup>
+
+      <SelectionActionDialog run={selectionAction.run} onClose={selectionAction.close} />
+      <PreviewFixDialog run={previewFix.run} onClose={previewFix.close} />
+
+      <DiffPreviewDialog
+        edit={pendingEdit}
+        onAccept={handleAcceptEdit}
+        onReject={() => setPendingEdit(null)}
+      />
+
+      <ChangesetDialog
+        changes={changeset}
+        onApply={handleApplyChangeset}
+        onCancel={() => setChangeset(null)}
+      />
     </div>
   );
 };